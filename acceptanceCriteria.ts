@@ -0,0 +1,446 @@
+/**
+ * Acceptance Criteria
+ * Extracts the acceptance criteria of a Jira story as a numbered list and maps them to the tests
+ * in a traceability matrix (criterion → tests → status)
+ */
+
+import { escapeHtml } from './formatting';
+import { adfToText, fieldToText } from './jiraClient';
+import { CRITERION_STATUS, type CriterionStatus } from './constants';
+import type { AcceptanceCriterion, CriterionCoverage, JiraIssue, ModelResponse, TraceabilityRow } from './types';
+
+/**
+ * Maximum number of criteria sent to the models
+ */
+const MAX_CRITERIA = 50;
+
+/**
+ * Names of the fields and headings holding acceptance criteria
+ */
+const CRITERIA_NAME_PATTERN = /^acceptance\s+criteria(\s*\(ACs?\))?$/i;
+
+/**
+ * Markdown headings written by adfToText and wiki markup headings
+ */
+const HEADING_PATTERN = /^\s*(?:(#{1,6})\s+|h([1-6])\.\s+)/;
+
+/**
+ * Gherkin keywords
+ */
+const GHERKIN_SCENARIO = /^\s*(?:Scenario Outline|Scenario Template|Scenario|Example)\s*:/i;
+const GHERKIN_STEP = /^\s*(?:Given|When|Then|And|But)\b/i;
+const GHERKIN_EXAMPLES = /^\s*(?:Examples|Scenarios)\s*:/i;
+const GHERKIN_IGNORED = /^\s*(?:Feature|Background|Rule)\s*:/i;
+
+/**
+ * Bulleted, numbered and lettered list items
+ */
+const LIST_ITEM = /^(\s*)(?:[-*•+]|\d{1,3}[.)]|[a-z][.)])\s+(.+)$/;
+
+/**
+ * Table rows: `| cell |`, wiki `|| header ||` and the `|---|` line below a Markdown header
+ */
+const TABLE_ROW = /^\s*\|/;
+const TABLE_HEADER = /^\s*\|\|/;
+const TABLE_SEPARATOR = /^\s*\|?[\s:|-]*-{3,}[\s:|-]*$/;
+
+/**
+ * ADF nodes whose children are walked for tables
+ */
+const ADF_CONTAINERS = new Set(['doc', 'panel', 'expand', 'nestedExpand', 'layoutSection', 'layoutColumn']);
+
+/**
+ * Rank of each verdict, the best verdict first
+ */
+const STATUS_RANK: Record<CriterionStatus, number> = {
+    [CRITERION_STATUS.COVERED]: 3,
+    [CRITERION_STATUS.PARTIAL]: 2,
+    [CRITERION_STATUS.MISSING]: 1,
+};
+
+/**
+ * Icon and label of each verdict
+ */
+const STATUS_LABELS: Record<CriterionStatus, string> = {
+    [CRITERION_STATUS.COVERED]: '✅ Covered',
+    [CRITERION_STATUS.PARTIAL]: '⚠️ Partially covered',
+    [CRITERION_STATUS.MISSING]: '❌ Missing',
+};
+
+/**
+ * Converts an ADF document to lines of text. Table rows become `| cell | cell |` lines, header rows
+ * `|| cell || cell ||`, so they can be told apart once the document is plain text.
+ */
+function adfToLines(node: any): string[] {
+    if (node?.type === 'table') {
+        return (node.content ?? []).map((row: any) => {
+            const cells: any[] = row.content ?? [];
+            const texts = cells.map((cell) =>
+                (cell.content ?? [])
+                    .map((child: any) => adfToText(child))
+                    .join('')
+                    .trim()
+                    .replace(/\s*\n\s*/g, ' / ')
+                    .replace(/\|/g, '/'),
+            );
+            return cells.length > 0 && cells.every((cell) => cell.type === 'tableHeader')
+                ? `|| ${texts.join(' || ')} ||`
+                : `| ${texts.join(' | ')} |`;
+        });
+    }
+    if (ADF_CONTAINERS.has(node?.type)) {
+        return (node.content ?? []).flatMap(adfToLines);
+    }
+    return adfToText(node).split('\n');
+}
+
+/**
+ * Converts a field value to lines of text
+ */
+function fieldToLines(value: any): string[] {
+    return value?.type === 'doc' ? adfToLines(value) : fieldToText(value).split(/\r?\n/);
+}
+
+/**
+ * Level of a heading line, or null for other lines
+ */
+function getHeadingLevel(line: string): number | null {
+    const match = HEADING_PATTERN.exec(line);
+    return match ? Number(match[2] ?? match[1].length) : null;
+}
+
+/**
+ * Whether a line introduces the acceptance criteria: a heading, a bold label or an `Acceptance Criteria:` line
+ */
+function isCriteriaHeading(line: string): boolean {
+    return CRITERIA_NAME_PATTERN.test(line.replace(HEADING_PATTERN, '').replace(/[*_:]/g, '').trim());
+}
+
+/**
+ * Finds the acceptance criteria section: the lines below its heading up to the next heading of the same
+ * or a higher level, or up to any heading when the criteria are introduced by a label
+ * @returns Lines of the section, or null when there is no such section
+ */
+function findCriteriaSection(lines: string[]): string[] | null {
+    const start = lines.findIndex(isCriteriaHeading);
+    if (start === -1) {
+        return null;
+    }
+    const level = getHeadingLevel(lines[start]);
+    const rest = lines.slice(start + 1);
+    const end = rest.findIndex((line) => {
+        const lineLevel = getHeadingLevel(line);
+        return lineLevel !== null && (level === null || lineLevel <= level);
+    });
+    return end === -1 ? rest : rest.slice(0, end);
+}
+
+/**
+ * Splits lines into criteria: each Gherkin scenario with its steps and examples, each top-level list item
+ * with its nested items, and each table row below the header. Other lines are only used when none of these
+ * are found and `allowPlain` is set, one criterion per line.
+ * @param lines - Lines of the criteria text
+ * @param allowPlain - Whether plain lines are criteria, as in a field holding nothing else
+ * @returns Criteria text, Gherkin steps and nested items on separate lines
+ */
+function parseCriteriaLines(lines: string[], allowPlain: boolean): string[] {
+    const items: string[][] = [];
+    const plain: string[] = [];
+    let kind: 'gherkin' | 'list' | 'table' | null = null;
+    let listIndent = 0;
+    let tableRows = 0;
+    let examples = false;
+    const last = (): string[] => items[items.length - 1];
+
+    for (const line of lines) {
+        const text = line.trim();
+        if (!text) {
+            continue;
+        }
+        if (GHERKIN_SCENARIO.test(line)) {
+            items.push([text]);
+            kind = 'gherkin';
+            examples = false;
+            continue;
+        }
+        if (GHERKIN_STEP.test(line)) {
+            // A `Given` after a `Then` starts the next criterion when the scenarios have no titles
+            const startsNext = /^\s*Given\b/i.test(line) && last()?.some((step) => /^Then\b/i.test(step));
+            if (kind !== 'gherkin' || examples || startsNext) {
+                items.push([]);
+                kind = 'gherkin';
+                examples = false;
+            }
+            last().push(text);
+            continue;
+        }
+        if (kind === 'gherkin' && GHERKIN_EXAMPLES.test(line)) {
+            examples = true;
+            last().push(text);
+            continue;
+        }
+        if (GHERKIN_IGNORED.test(line)) {
+            kind = null;
+            continue;
+        }
+        if (TABLE_ROW.test(line)) {
+            if (kind === 'gherkin' && examples) {
+                last().push(text);
+                continue;
+            }
+            if (TABLE_SEPARATOR.test(line)) {
+                // The row above a Markdown separator is the header
+                if (kind === 'table' && tableRows === 1) {
+                    items.pop();
+                }
+                continue;
+            }
+            if (kind !== 'table') {
+                kind = 'table';
+                tableRows = 0;
+            }
+            if (TABLE_HEADER.test(line)) {
+                continue;
+            }
+            const cells = text
+                .split('|')
+                .map((cell) => cell.trim())
+                .filter(Boolean);
+            if (cells.length > 1 && /^(AC)?\s*\d+[.)]?$/i.test(cells[0])) {
+                cells.shift();
+            }
+            if (cells.length > 0) {
+                items.push([cells.join(' | ')]);
+                tableRows++;
+            }
+            continue;
+        }
+        const item = LIST_ITEM.exec(line);
+        if (item) {
+            const indent = item[1].replace(/\t/g, '    ').length;
+            if (kind === 'list' && indent > listIndent) {
+                last().push(`- ${item[2].trim()}`);
+            } else {
+                items.push([item[2].trim()]);
+                kind = 'list';
+                listIndent = indent;
+            }
+            continue;
+        }
+        kind = null;
+        if (!text.endsWith(':') && getHeadingLevel(line) === null) {
+            plain.push(text);
+        }
+    }
+
+    const criteria = items.filter((item) => item.length > 0).map((item) => item.join('\n'));
+    return criteria.length === 0 && allowPlain ? plain : criteria;
+}
+
+/**
+ * Parses the IDs of the JIRA_ACCEPTANCE_CRITERIA_FIELDS setting
+ * @param value - Comma-separated field IDs, e.g. `customfield_10035`
+ * @returns Field IDs
+ */
+export function getCriteriaFieldIds(value: string): string[] {
+    return (value || '')
+        .split(',')
+        .map((id) => id.trim())
+        .filter(Boolean);
+}
+
+/**
+ * Extracts the acceptance criteria of a story, in order of precedence:
+ * 1. the configured acceptance criteria fields and fetched fields named "Acceptance Criteria"
+ * 2. the "Acceptance Criteria" section of the description
+ * 3. the Gherkin scenarios of the description
+ * @param issue - Jira issue with its raw fields
+ * @param fieldSetting - JIRA_ACCEPTANCE_CRITERIA_FIELDS
+ * @returns Numbered criteria (AC1, AC2, ...), empty when the story has none
+ */
+export function extractAcceptanceCriteria(issue: JiraIssue, fieldSetting: string): AcceptanceCriterion[] {
+    const found: Array<{ text: string; source: string }> = [];
+
+    const fieldIds = [
+        ...new Set([
+            ...getCriteriaFieldIds(fieldSetting),
+            ...Object.keys(issue.fields).filter((id) => CRITERIA_NAME_PATTERN.test(issue.fieldNames[id] ?? '')),
+        ]),
+    ];
+    for (const id of fieldIds) {
+        const lines = fieldToLines(issue.fields[id]);
+        const source = issue.fieldNames[id] ?? id;
+        parseCriteriaLines(findCriteriaSection(lines) ?? lines, true).forEach((text) => found.push({ text, source }));
+    }
+
+    if (found.length === 0) {
+        const lines = fieldToLines(issue.fields.description ?? issue.description);
+        const section = findCriteriaSection(lines);
+        const criteria = section
+            ? parseCriteriaLines(section, true)
+            : parseCriteriaLines(lines, false).filter((text) => GHERKIN_SCENARIO.test(text) || GHERKIN_STEP.test(text));
+        criteria.forEach((text) => found.push({ text, source: 'Description' }));
+    }
+
+    const seen = new Set<string>();
+    return found
+        .filter(({ text }) => {
+            const key = text.toLowerCase().replace(/\s+/g, ' ');
+            return !seen.has(key) && seen.add(key);
+        })
+        .slice(0, MAX_CRITERIA)
+        .map(({ text, source }, i) => ({ id: `AC${i + 1}`, text, source }));
+}
+
+/**
+ * Lists the criteria for the prompt
+ * @param criteria - Acceptance criteria of the story
+ * @returns One criterion per entry with its ID, or a note that the story has none
+ */
+export function formatCriteriaForPrompt(criteria: AcceptanceCriterion[]): string {
+    if (criteria.length === 0) {
+        return 'No acceptance criteria were found in the story.';
+    }
+    return criteria.map((c) => `${c.id}: ${c.text.split('\n').join('\n    ')}`).join('\n');
+}
+
+/**
+ * Whether a criterion ID returned by a model refers to a criterion; models sometimes write `ac1` or `AC 1`
+ */
+function isSameCriterion(id: string, criterion: AcceptanceCriterion): boolean {
+    return id.replace(/\s+/g, '').toUpperCase() === criterion.id;
+}
+
+/**
+ * Combines the verdicts of one model on the same criterion, as given for the chunks of a split report:
+ * the best verdict wins and the tests are joined
+ * @param criteria - Verdicts of every chunk
+ * @returns One verdict per criterion ID
+ */
+export function mergeCriterionCoverage(criteria: CriterionCoverage[]): CriterionCoverage[] {
+    const merged = new Map<string, CriterionCoverage>();
+    for (const item of criteria) {
+        const existing = merged.get(item.id);
+        if (!existing) {
+            merged.set(item.id, { ...item, tests: [...item.tests] });
+            continue;
+        }
+        existing.tests = [...new Set([...existing.tests, ...item.tests])];
+        if (STATUS_RANK[item.status] > STATUS_RANK[existing.status]) {
+            existing.status = item.status;
+            existing.detail = item.detail;
+        }
+    }
+    return [...merged.values()];
+}
+
+/**
+ * Builds the traceability matrix. A criterion a model does not list counts as missing for that model;
+ * with several models the verdict most of them gave wins, and a tie goes to the worse verdict.
+ * @param criteria - Acceptance criteria of the story
+ * @param responses - All model responses, failed ones included
+ * @returns One row per criterion
+ */
+export function buildTraceabilityMatrix(
+    criteria: AcceptanceCriterion[],
+    responses: ModelResponse[],
+): TraceabilityRow[] {
+    const valid = responses.filter((r) => r.result);
+    return criteria.map((criterion) => {
+        const verdicts = valid.map((r) => {
+            const coverage = r.result.criteria.find((c) => isSameCriterion(c.id, criterion));
+            return { model: r.model, status: coverage?.status ?? CRITERION_STATUS.MISSING, coverage };
+        });
+        const counts = new Map<CriterionStatus, number>();
+        verdicts.forEach((v) => counts.set(v.status, (counts.get(v.status) ?? 0) + 1));
+        const [status] = [...counts.entries()].sort(
+            ([a, countA], [b, countB]) => countB - countA || STATUS_RANK[a] - STATUS_RANK[b],
+        )[0] ?? [CRITERION_STATUS.MISSING];
+        const chosen = verdicts.find((v) => v.status === status);
+
+        return {
+            criterion,
+            status,
+            tests: [...new Set(verdicts.flatMap((v) => v.coverage?.tests ?? []))],
+            detail:
+                valid.length === 0
+                    ? 'no model returned a valid analysis'
+                    : (chosen?.coverage?.detail ?? (chosen?.coverage ? undefined : 'not assessed by the model')),
+            verdicts: counts.size > 1 ? verdicts.map(({ model, status: s }) => ({ model, status: s })) : [],
+        };
+    });
+}
+
+/**
+ * Describes the verdict of a row, with the verdict of each model when they disagree
+ */
+function describeStatus(row: TraceabilityRow, escape: (text: string) => string, lineBreak: string): string {
+    let text = STATUS_LABELS[row.status];
+    if (row.detail) {
+        text += `: ${escape(row.detail)}`;
+    }
+    if (row.verdicts.length > 0) {
+        text += lineBreak + row.verdicts.map((v) => `${escape(v.model)}: ${v.status}`).join(', ');
+    }
+    return text;
+}
+
+/**
+ * Counts the covered criteria
+ */
+function getCoverageCount(rows: TraceabilityRow[]): string {
+    const covered = rows.filter((row) => row.status === CRITERION_STATUS.COVERED).length;
+    return `${covered} of ${rows.length} covered`;
+}
+
+/**
+ * Renders the traceability matrix for the PR comment
+ * @param rows - Traceability matrix
+ * @returns Markdown table, or an empty string when the story has no acceptance criteria
+ */
+export function getTraceabilitySummary(rows: TraceabilityRow[]): string {
+    if (rows.length === 0) {
+        return '';
+    }
+    const cell = (text: string): string => escapeHtml(text).replace(/\|/g, '\\|').replace(/\n/g, '<br>');
+    return (
+        [
+            `\n<b>Acceptance Criteria:-</b> ${getCoverageCount(rows)}\n`,
+            '| # | Criterion | Tests | Status |',
+            '|---|---|---|---|',
+            ...rows.map(
+                (row) =>
+                    `| ${row.criterion.id} | ${cell(row.criterion.text)} | ` +
+                    `${row.tests.map(cell).join('<br>') || '-'} | ${describeStatus(row, cell, '<br>')} |`,
+            ),
+        ].join('\n') + '\n'
+    );
+}
+
+/**
+ * Renders the traceability matrix for the Confluence page
+ * @param rows - Traceability matrix
+ * @returns HTML table, or an empty string when the story has no acceptance criteria
+ */
+export function getTraceabilityPage(rows: TraceabilityRow[]): string {
+    if (rows.length === 0) {
+        return '';
+    }
+    const text = (value: string): string => escapeHtml(value).replace(/\n/g, '<br />');
+    const cell = (value: string): string => `<td>${value}</td>`;
+    const header = ['#', 'Criterion', 'Source', 'Tests', 'Status'].map((h) => `<th>${h}</th>`).join('');
+    const body = rows.map(
+        (row) =>
+            '<tr>' +
+            cell(row.criterion.id) +
+            cell(text(row.criterion.text)) +
+            cell(escapeHtml(row.criterion.source)) +
+            cell(row.tests.length > 0 ? row.tests.map(text).join('<br />') : '-') +
+            cell(describeStatus(row, text, '<br />')) +
+            '</tr>',
+    );
+    return (
+        `<h2>📋 Acceptance Criteria</h2><p>${getCoverageCount(rows)}</p>` +
+        `<table><tr>${header}</tr>${body.join('')}</table>`
+    );
+}
@@ -0,0 +1,32 @@
+/**
+ * Action Outputs
+ * Publishes step outputs for the later steps and jobs of the workflow
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import { logger } from 'OpenRouterAICore/pino';
+import type { ActionOutputs } from './types';
+
+/**
+ * Appends the outputs to the file GitHub Actions reads them from.
+ * Values are written with a random heredoc delimiter, so multi-line comment bodies stay intact.
+ * @param outputs - Step outputs
+ */
+export function writeActionOutputs(outputs: ActionOutputs): void {
+    const outputPath = process.env.GITHUB_OUTPUT;
+    if (!outputPath) {
+        logger.info('GITHUB_OUTPUT is not set, skipping the step outputs');
+        return;
+    }
+    const delimiter = `ghadelimiter_${crypto.randomUUID()}`;
+    const content = Object.entries(outputs)
+        .map(([name, value]) => `${name}<<${delimiter}\n${value}\n${delimiter}\n`)
+        .join('');
+    try {
+        fs.appendFileSync(outputPath, content);
+    } catch (error) {
+        console.error('Error writing the step outputs:', error);
+        logger.error('Error writing step outputs', error);
+    }
+}
@@ -0,0 +1,539 @@
+/**
+ * Analysis Pipeline
+ * Runs the test quality analysis from the story and the test report to the rendered model results,
+ * without publishing anything. Used by the GitHub Action (`main.ts`) and the local CLI (`cli.ts`).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { GetProjectDocument } from 'OpenRouterAICore/thirdPartyUtils';
+import { ENV_VARIABLES as GlobalENV } from 'OpenRouterAICore/environment';
+import { GetStore } from 'OpenRouterAICore/store/utils';
+import { logger } from 'OpenRouterAICore/pino';
+import { loadTestReport, getTestStatusSummary } from './reportAdapters';
+import { loadCoverage, getCoverageSummary, hasCoverageData, isInCoverageRoots, loadCoverageRoots } from './coverage';
+import { isSourceFile, mapReportToChangedFiles, parsePathMappingRules } from './pathMapping';
+import { parseTestFiles, getTestBodies } from './testExtractor';
+import { analyzeTestSmells, getTestSmellSummary } from './testSmells';
+import { loadMutationReport, getMutationSummary } from './mutationReport';
+import { getAnalysisResult, mergeModelResponses } from './analysisResult';
+import { withRetry } from './retry';
+import { mapWithConcurrency } from './concurrency';
+import { buildConsensus, getConsensusSummary } from './consensus';
+import { API_SOURCE, HTML_TAGS, LLM_PROVIDERS } from './constants';
+import { fetchJiraIssue, formatJiraStory } from './jiraClient';
+import { getTicketFiles } from './jiraTickets';
+import {
+    buildTraceabilityMatrix,
+    extractAcceptanceCriteria,
+    formatCriteriaForPrompt,
+    getCriteriaFieldIds,
+    getTraceabilityPage,
+    getTraceabilitySummary,
+} from './acceptanceCriteria';
+import { getQualityMetrics } from './qualityGate';
+import { estimateTokens, getPromptBudget } from './tokenBudget';
+import { logChunkPlan, planReportChunks, serializeReportPayload } from './reportChunks';
+import { escapeHtml, formatScore, renderAnalysisHtml, renderAnalysisMarkdown } from './formatting';
+import { getCacheKey, getCacheReport, readCachedResponse, writeCachedResponse } from './resultCache';
+import { renderPrompt } from './promptTemplate';
+import { createLlmProvider, createOpenRouterProvider } from './llmProviders';
+import type {
+    AnalysisOptions,
+    AnalysisRun,
+    EnvironmentConfig,
+    JiraIssue,
+    JiraTicket,
+    LlmProvider,
+    ModelResponse,
+    ReportPayload,
+    TestReport,
+    TicketAnalysis,
+} from './types';
+
+/**
+ * Fetches the Jira story of a ticket
+ * @param key - Issue key, e.g. `TEL-123`
+ * @param extraFields - Field IDs to fetch besides JIRA_FETCH_FIELDS
+ * @returns Fetched issue
+ * @throws The Jira error once the retries are exhausted
+ */
+export async function fetchJiraStory(key: string, extraFields: string[] = []): Promise<JiraIssue> {
+    console.log(`📡 Calling Jira API to fetch ticket: ${key}`);
+    try {
+        const issue: JiraIssue = await withRetry(API_SOURCE.JIRA, `Fetch Jira ticket ${key}`, () =>
+            fetchJiraIssue(key, extraFields),
+        );
+        console.log('✅ Jira Title:', issue.summary);
+        return issue;
+    } catch (e: any) {
+        const errorMessage = e?.message || String(e);
+        const statusCode = e?.status || e?.statusCode || e?.response?.status;
+
+        console.error(`❌ Error fetching Jira Title:`);
+        console.error(`   Status Code: ${statusCode || 'N/A'}`);
+        console.error(`   Error Message: ${errorMessage}`);
+
+        if (statusCode === 429 || errorMessage.includes('429')) {
+            console.error(`\n⚠️  RATE LIMIT ERROR (429) - Too Many Requests`);
+            console.error(`   Source: Jira API (fetch ticket ${key})`);
+            console.error(`   Action: Your Jira account has exceeded API rate limits`);
+            console.error(`   Tip: Wait a few minutes and try again\n`);
+        } else if (statusCode === 401) {
+            console.error(`\n⚠️  AUTHENTICATION ERROR (401)`);
+            console.error(`   Source: Jira API`);
+            console.error(`   Action: Check JIRA_API_TOKEN is valid\n`);
+        } else if (statusCode === 404) {
+            console.error(`\n⚠️  NOT FOUND ERROR (404)`);
+            console.error(`   Source: Jira API`);
+            console.error(`   Action: Check JIRA ticket ${key} exists\n`);
+        }
+
+        throw e;
+    }
+}
+
+/**
+ * Parses and filters the test report file based on the changed files
+ * @param files - Changed files
+ * @param settings - Report and path mapping settings
+ * @returns Filtered report (empty if parsing fails), the report entries kept for the changed files
+ *          and the changed source files that have no tests
+ */
+async function parseReportFile(
+    files: string[],
+    settings: EnvironmentConfig,
+): Promise<{ tests: TestReport; testFiles: string[]; untestedFiles: string[] }> {
+    try {
+        const reportFileJson = await loadTestReport(settings.REPORT_FILE_PATH);
+
+        const mapping = mapReportToChangedFiles(
+            reportFileJson,
+            files,
+            parsePathMappingRules(settings.TEST_PATH_MAPPINGS),
+            settings.TSCONFIG_PATH,
+        );
+
+        // If no source files changed, return full report
+        if (!mapping.hasCodeChanges) {
+            return { tests: reportFileJson, testFiles: [], untestedFiles: [] };
+        }
+
+        if (mapping.untestedFiles.length > 0) {
+            console.log(`⚠️  Changed files without tests: ${mapping.untestedFiles.join(', ')}`);
+        }
+        return {
+            tests: mapping.report,
+            testFiles: Object.keys(mapping.report),
+            untestedFiles: mapping.untestedFiles,
+        };
+    } catch (error) {
+        console.error('Error parsing report file:', error);
+        logger.error('Error in parsing Report', error);
+        return { tests: {}, testFiles: [], untestedFiles: [] };
+    }
+}
+
+/**
+ * Lists the changed source files that no test covers, for the PR summary
+ * @param untestedFiles - Changed source files without tests
+ * @returns HTML formatted list, or an empty string when every file has tests
+ */
+function getUntestedFilesSummary(untestedFiles: string[]): string {
+    if (untestedFiles.length === 0) {
+        return '';
+    }
+    return `\n<b>Changed files without tests:-</b> ${untestedFiles.map((f) => `<code>${f}</code>`).join(', ')}`;
+}
+
+/**
+ * Fetches the project document and indexes it in the vector store the OpenRouter models answer from
+ * @returns OpenRouter provider backed by the vector store
+ */
+async function initializeOpenRouterProvider(): Promise<LlmProvider> {
+    logger.info('Step 5: Fetching Project Document...');
+    console.log('📡 Fetching project documentation from Confluence/S3...');
+    let projectDocument: string;
+    try {
+        projectDocument = await withRetry(API_SOURCE.S3, 'Fetch project document', () => GetProjectDocument());
+        console.log('✅ Project Document fetched successfully');
+    } catch (e: any) {
+        const errorMessage = e?.message || String(e);
+        const statusCode = e?.status || e?.statusCode || e?.response?.status;
+
+        console.error(`❌ Error fetching Project Document:`);
+        console.error(`   Status Code: ${statusCode || 'N/A'}`);
+        console.error(`   Error Message: ${errorMessage}`);
+
+        if (statusCode === 429 || errorMessage.includes('429')) {
+            console.error(`\n⚠️  RATE LIMIT ERROR (429) - Too Many Requests`);
+            console.error(`   Source: Confluence/S3 API (GetProjectDocument)`);
+            console.error(`   Action: API rate limit exceeded`);
+            console.error(`   Tip: Wait a few minutes and try again\n`);
+        }
+
+        throw e;
+    }
+
+    logger.info('Step 6: Initializing Vector Store...');
+    const store = GetStore();
+    await store.addDocument(GlobalENV.JIRA_PROJECT_KEY + '-index', projectDocument);
+    console.log('✅ Document added to vector store');
+    return createOpenRouterProvider(store, GlobalENV.JIRA_PROJECT_KEY + '-index');
+}
+
+/**
+ * Creates the configured LLM provider on first use and shares it between the analyses of a run,
+ * so the project document is fetched and indexed once. A failed creation is tried again on the next use.
+ * @param settings - LLM provider settings
+ * @returns Loader of the provider
+ */
+function createProviderLoader(settings: EnvironmentConfig): () => Promise<LlmProvider> {
+    let provider: Promise<LlmProvider> | null = null;
+    return () => {
+        provider ??= createLlmProvider(
+            {
+                provider: settings.LLM_PROVIDER,
+                baseUrl: settings.LLM_BASE_URL,
+                apiKey: settings.LLM_API_KEY,
+                fixtureDir: settings.LLM_FIXTURE_DIR,
+            },
+            initializeOpenRouterProvider,
+        ).catch((error) => {
+            provider = null;
+            throw error;
+        });
+        return provider;
+    };
+}
+
+/**
+ * Processes AI model responses for test quality analysis
+ * Calls the configured models concurrently and validates their structured analysis.
+ * A model that fails is reported in its response instead of aborting the run.
+ *
+ * @param modelNames - Array of AI model names to use
+ * @param provider - LLM provider the models are called through
+ * @param preparePrompt - Builds the user prompt for a report payload
+ * @param reportPayload - Report data for the prompt, split per model when it exceeds the model's token budget
+ * @param settings - Concurrency and token budget settings
+ * @returns Typed response of each model, in the configured order
+ * @throws Error if every model failed
+ */
+async function processModelResponses(
+    modelNames: string[],
+    provider: LlmProvider,
+    preparePrompt: (report: string) => string,
+    reportPayload: ReportPayload,
+    settings: EnvironmentConfig,
+): Promise<ModelResponse[]> {
+    const concurrency = Math.max(1, parseInt(settings.MODEL_CONCURRENCY, 10) || 1);
+    const responses = await mapWithConcurrency(modelNames, concurrency, async (modelName): Promise<ModelResponse> => {
+        try {
+            logger.info(`🤖 Calling AI Model: ${modelName}`);
+            const plan = planReportChunks(
+                reportPayload,
+                getPromptBudget(modelName, settings.PROMPT_TOKEN_BUDGET),
+                estimateTokens(preparePrompt('')),
+            );
+            logChunkPlan(modelName, plan);
+            if (plan.chunks.length === 0) {
+                throw new Error(`The report does not fit the token budget of ${modelName}`);
+            }
+
+            const chunkResponses: ModelResponse[] = [];
+            for (const [index, chunk] of plan.chunks.entries()) {
+                const label = plan.chunks.length > 1 ? `${modelName} (${index + 1}/${plan.chunks.length})` : modelName;
+                console.log(`📡 Making API call to ${provider.name} with model: ${label}`);
+
+                const modelOutput: string = await withRetry(provider.source, `Model ${label}`, () =>
+                    provider.generate(modelName, preparePrompt(serializeReportPayload(chunk))),
+                );
+                console.log(`✅ Received response from model: ${label}`);
+
+                logger.info(`📊 Validating analysis of model: ${label}`);
+                chunkResponses.push(await getAnalysisResult(provider, modelName, modelOutput));
+            }
+            return mergeModelResponses(modelName, chunkResponses);
+        } catch (error: any) {
+            const errorMessage = error?.message || String(error);
+            const statusCode = error?.status || error?.statusCode || error?.response?.status;
+
+            console.error(`❌ Error with model ${modelName}:`);
+            console.error(`   Status Code: ${statusCode || 'N/A'}`);
+            console.error(`   Error Message: ${errorMessage}`);
+
+            if (
+                statusCode === 429 ||
+                errorMessage.includes('429') ||
+                errorMessage.toLowerCase().includes('rate limit')
+            ) {
+                console.error(`\n⚠️  RATE LIMIT ERROR (429) - Too Many Requests`);
+                console.error(`   Source: ${provider.source}`);
+                console.error(`   Model: ${modelName}`);
+                if (provider.name === LLM_PROVIDERS.OPENROUTER) {
+                    console.error(`   Action: Check your OpenRouter API rate limits and credits`);
+                    console.error(`   URL: https://openrouter.ai/account`);
+                }
+                console.error(`   Tip: Wait a few minutes and try again, or upgrade your plan\n`);
+            }
+
+            logger.error(`Error processing model ${modelName}:`, error);
+            return {
+                model: modelName,
+                result: null,
+                raw: '',
+                errors: [],
+                repairAttempts: 0,
+                error: statusCode ? `${statusCode} ${errorMessage}` : errorMessage,
+            };
+        }
+    });
+
+    if (responses.every((r) => r.error)) {
+        throw new Error(`All models failed: ${responses.map((r) => `${r.model} (${r.error})`).join(', ')}`);
+    }
+    return responses;
+}
+
+/**
+ * Runs the analysis:
+ * 1. Parses the test report and attaches coverage, mutation and test body data of the changed files
+ * 2. Renders the prompt
+ * 3. Reuses cached analyses of unchanged inputs
+ * 4. Calls the other models through the configured provider
+ *
+ * @param options - Story, changed files, models and settings
+ * @param loadProvider - Loader of the LLM provider, shared by the analyses of a run; only called on a cache miss
+ * @returns Model responses, consensus, static analysis and the PR summary
+ * @throws Error if every model that had to be called failed
+ */
+export async function runAnalysis(
+    options: AnalysisOptions,
+    loadProvider = createProviderLoader(options.settings),
+): Promise<AnalysisRun> {
+    const { story, changedFiles, modelNames, settings } = options;
+    let summary = '';
+
+    logger.info('Step 2: Parsing Report File...');
+    const parsedReport = await parseReportFile(changedFiles, settings);
+    console.log('✅ Report file parsed successfully');
+
+    const coverage = loadCoverage(settings.COVERAGE_DIR, changedFiles);
+    const coverageRoots = loadCoverageRoots(settings.COVERAGE_DIR);
+    // Files deleted by the PR have nothing left to cover, and files outside the covered directories are not instrumented
+    const uncoveredFiles = changedFiles.filter(
+        (file) =>
+            isSourceFile(file) &&
+            !coverage[file] &&
+            isInCoverageRoots(coverageRoots, file) &&
+            fs.existsSync(path.resolve(file)),
+    );
+    if (Object.keys(coverage).length > 0) {
+        console.log(`✅ Coverage attached for ${Object.keys(coverage).length} changed file(s)`);
+    }
+    const parsedTests = parseTestFiles([...changedFiles, ...parsedReport.testFiles]);
+    const testBodies = getTestBodies(parsedTests);
+    const smellReport = analyzeTestSmells(parsedTests);
+    console.log(`✅ Static analysis score: ${smellReport.score}/10 (${smellReport.smells.length} smell(s))`);
+    const mutation = loadMutationReport(settings.MUTATION_REPORT_PATH, changedFiles);
+    if (Object.keys(mutation).length > 0) {
+        console.log(`✅ Mutation results attached for ${Object.keys(mutation).length} changed file(s)`);
+    }
+    const reportPayload: ReportPayload = {
+        tests: parsedReport.tests,
+        coverage,
+        mutation,
+        testBodies,
+        untestedFiles: parsedReport.untestedFiles,
+    };
+    summary += getCoverageSummary(coverage);
+    summary += getMutationSummary(mutation);
+    summary += getUntestedFilesSummary(parsedReport.untestedFiles);
+
+    logger.info('Step 3: Preparing User Prompt...');
+    const promptVariables = {
+        story,
+        criteria: formatCriteriaForPrompt(options.criteria),
+        diff: changedFiles.join('\n'),
+        coverage: JSON.stringify(coverage, null, 2),
+        repo: options.repo,
+        prNumber: options.prNumber,
+    };
+    const preparePrompt = (report: string): string =>
+        renderPrompt(options.promptName, { ...promptVariables, report }, settings.PROMPT_DIR);
+
+    const reportJson = serializeReportPayload(reportPayload);
+    fs.writeFileSync(options.promptOutputPath, preparePrompt(reportJson));
+    console.log('✅ Prompt prepared and saved');
+
+    logger.info('Step 4: Checking Analysis Cache...');
+    // Files the PR changes without affecting the tests, e.g. the README, must not invalidate the cache
+    const cacheReport = getCacheReport(reportPayload);
+    const promptTemplate = renderPrompt(
+        options.promptName,
+        { ...promptVariables, diff: '', report: '' },
+        settings.PROMPT_DIR,
+    );
+    const cacheKeys = new Map<string, string>(
+        modelNames.map((model): [string, string] => [
+            model,
+            getCacheKey({
+                story,
+                report: cacheReport,
+                promptTemplate,
+                tokenBudget: settings.PROMPT_TOKEN_BUDGET,
+                model: `${settings.LLM_PROVIDER}:${model}`,
+            }),
+        ]),
+    );
+    const cachedResponses = new Map<string, ModelResponse>();
+    for (const model of modelNames) {
+        const cached = readCachedResponse(settings.CACHE_DIR, cacheKeys.get(model));
+        if (cached) {
+            cachedResponses.set(model, cached);
+            console.log(`♻️ Reusing cached analysis of ${model} from ${cached.reusedFrom.createdAt}`);
+        }
+    }
+    const pendingModels = modelNames.filter((model) => !cachedResponses.has(model));
+
+    const freshResponses = new Map<string, ModelResponse>();
+    if (pendingModels.length > 0) {
+        const provider = await loadProvider();
+
+        logger.info(`Step 7: Getting Response from ${provider.name}`);
+        if (provider.name === LLM_PROVIDERS.OPENROUTER) {
+            logger.info(`API URL: ${GlobalENV.OPEN_ROUTER_API_URL}`);
+        }
+        logger.info(`Models: ${pendingModels.join(',')}`);
+
+        const responses = await processModelResponses(pendingModels, provider, preparePrompt, reportPayload, settings);
+        for (const modelResponse of responses) {
+            freshResponses.set(modelResponse.model, modelResponse);
+            writeCachedResponse(settings.CACHE_DIR, cacheKeys.get(modelResponse.model), modelResponse);
+        }
+    } else {
+        console.log('♻️ Story, report, prompt and models unchanged, skipping the model calls');
+    }
+
+    const modelResponses = modelNames.map((model) => cachedResponses.get(model) ?? freshResponses.get(model));
+    const consensus = buildConsensus(modelResponses);
+    const traceability = buildTraceabilityMatrix(options.criteria, modelResponses);
+    summary += modelResponses.map(renderAnalysisMarkdown).join('');
+    summary += getConsensusSummary(consensus);
+    summary += getTraceabilitySummary(traceability);
+    summary += getTestSmellSummary(smellReport);
+    summary += getTestStatusSummary(parsedReport.tests, modelResponses);
+
+    return {
+        modelResponses,
+        consensus,
+        smellReport,
+        reportPayload,
+        traceability,
+        coverageFound: hasCoverageData(settings.COVERAGE_DIR),
+        uncoveredFiles,
+        summary,
+    };
+}
+
+/**
+ * Analyses each ticket's story and acceptance criteria against the tests of its files: the whole PR, or for
+ * a ticket only named in commit messages, the files of those commits. A ticket that cannot be fetched is skipped.
+ * @param tickets - Tickets of the PR
+ * @param options - Changed files of the PR, models and settings; each ticket's prompt is written next to
+ *                  `promptOutputPath` with the ticket key in its name when there are several tickets
+ * @returns Analysis of each fetched ticket, in ticket order
+ * @throws Error when no ticket could be fetched, or the analysis errors of `runAnalysis`
+ */
+export async function analyzeTickets(
+    tickets: JiraTicket[],
+    options: Omit<AnalysisOptions, 'story' | 'criteria'>,
+): Promise<TicketAnalysis[]> {
+    const criteriaFields = options.settings.JIRA_ACCEPTANCE_CRITERIA_FIELDS;
+    const loadProvider = createProviderLoader(options.settings);
+    const analyses: TicketAnalysis[] = [];
+    for (const ticket of tickets) {
+        let issue: JiraIssue;
+        try {
+            issue = await fetchJiraStory(ticket.key, getCriteriaFieldIds(criteriaFields));
+        } catch (e) {
+            logger.error(`Skipping Jira ticket ${ticket.key}`, e);
+            continue;
+        }
+        const criteria = extractAcceptanceCriteria(issue, criteriaFields);
+        console.log(`✅ ${criteria.length} acceptance criteria found in ${ticket.key}`);
+
+        const changedFiles = getTicketFiles(ticket, options.changedFiles);
+        const { dir, name, ext } = path.parse(options.promptOutputPath);
+        const run = await runAnalysis(
+            {
+                ...options,
+                story: formatJiraStory(issue),
+                criteria,
+                changedFiles,
+                promptOutputPath:
+                    tickets.length > 1 ? path.join(dir, `${name}-${ticket.key}${ext}`) : options.promptOutputPath,
+            },
+            loadProvider,
+        );
+        analyses.push({ ticket, issue, run, metrics: getQualityMetrics(run) });
+    }
+
+    if (analyses.length === 0) {
+        throw new Error(`None of the Jira tickets could be fetched: ${tickets.map((t) => t.key).join(', ')}`);
+    }
+    return analyses;
+}
+
+/**
+ * Renders the analysis part of the Confluence page: consensus, static analysis, the traceability matrix
+ * and each model's result
+ * @param run - Analysis run
+ * @returns HTML for the page body
+ */
+export function renderAnalysisPage(run: AnalysisRun): string {
+    return (
+        getConsensusSummary(run.consensus).split('\n').join(HTML_TAGS.BREAK) +
+        getTestSmellSummary(run.smellReport).split('\n').join(HTML_TAGS.BREAK) +
+        getTraceabilityPage(run.traceability) +
+        HTML_TAGS.BREAK +
+        HTML_TAGS.BREAK +
+        run.modelResponses.map(renderAnalysisHtml).join(HTML_TAGS.SEPARATOR)
+    );
+}
+
+/**
+ * Heading of a ticket's section, linking the issue and showing its score
+ */
+function getTicketHeading(analysis: TicketAnalysis): string {
+    const { issue, metrics } = analysis;
+    const score = metrics.score === null ? 'no valid analysis' : formatScore(metrics.score);
+    return `🎫 <a href="${escapeHtml(issue.url)}">${escapeHtml(issue.key)}</a> ${escapeHtml(issue.summary)} (${score})`;
+}
+
+/**
+ * Renders the PR summary of the analysed tickets; a single ticket keeps the plain layout
+ * @param analyses - Analysis of each ticket
+ * @returns HTML formatted summary with one section per ticket
+ */
+export function renderTicketSummary(analyses: TicketAnalysis[]): string {
+    if (analyses.length === 1) {
+        return analyses[0].run.summary;
+    }
+    return analyses.map((analysis) => `\n\n### ${getTicketHeading(analysis)}\n${analysis.run.summary}`).join('');
+}
+
+/**
+ * Renders the analysis part of the Confluence page for the analysed tickets
+ * @param analyses - Analysis of each ticket
+ * @returns HTML for the page body, with one section per ticket when there are several
+ */
+export function renderTicketPage(analyses: TicketAnalysis[]): string {
+    if (analyses.length === 1) {
+        return renderAnalysisPage(analyses[0].run);
+    }
+    return analyses
+        .map((analysis) => `<h1>${getTicketHeading(analysis)}</h1>${renderAnalysisPage(analysis.run)}`)
+        .join(HTML_TAGS.SEPARATOR);
+}
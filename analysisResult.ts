@@ -0,0 +1,307 @@
+/**
+ * Structured Analysis Result
+ * Parses and validates the JSON coverage analysis returned by the models, asking the model to repair invalid output
+ */
+
+import { logger } from 'OpenRouterAICore/pino';
+import { isSameCase } from './consensus';
+import { mergeCriterionCoverage } from './acceptanceCriteria';
+import { CRITERION_STATUS, type CriterionStatus } from './constants';
+import { renderPrompt } from './promptTemplate';
+import { withRetry } from './retry';
+import type { AnalysisResult, CoverageCase, CriterionCoverage, LlmProvider, ModelResponse } from './types';
+
+/**
+ * Number of times a model is asked to fix an output that fails validation
+ */
+const MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Bundled prompt sent with an invalid output; `{{errors}}` receives the validation errors
+ */
+const REPAIR_PROMPT = 'RepairPrompt';
+
+/**
+ * Lists of coverage cases in the analysis document
+ */
+const CASE_LISTS = ['fullyCovered', 'partiallyCovered', 'missing'] as const;
+
+/**
+ * Maximum score of the analysis
+ */
+const MAX_SCORE = 10;
+
+/**
+ * Pulls the JSON document out of a model output, dropping Markdown fences and any text around the object
+ * @param text - Raw model output
+ * @returns Parsed JSON value
+ * @throws SyntaxError when no JSON object can be parsed
+ */
+export function extractJson(text: string): unknown {
+    const unfenced = text.replace(/```[a-z]*\s*/gi, '').replace(/```/g, '');
+    const start = unfenced.indexOf('{');
+    const end = unfenced.lastIndexOf('}');
+    if (start === -1 || end < start) {
+        throw new SyntaxError('The output does not contain a JSON object');
+    }
+    return JSON.parse(unfenced.slice(start, end + 1));
+}
+
+/**
+ * Validates one entry of a coverage case list
+ */
+function validateCase(value: any, location: string, errors: string[]): CoverageCase | null {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        errors.push(`${location} must be an object`);
+        return null;
+    }
+    if (typeof value.case !== 'string' || value.case.trim() === '') {
+        errors.push(`${location}.case must be a non-empty string`);
+        return null;
+    }
+    const tests = value.tests ?? [];
+    if (!Array.isArray(tests) || tests.some((t) => typeof t !== 'string')) {
+        errors.push(`${location}.tests must be an array of strings`);
+        return null;
+    }
+    if (value.detail !== undefined && typeof value.detail !== 'string') {
+        errors.push(`${location}.detail must be a string`);
+        return null;
+    }
+    if (value.file !== undefined && value.file !== null && typeof value.file !== 'string') {
+        errors.push(`${location}.file must be a string`);
+        return null;
+    }
+    return {
+        case: value.case.trim(),
+        tests,
+        detail: value.detail?.trim() || undefined,
+        file: value.file?.trim() || undefined,
+    };
+}
+
+/**
+ * Validates one entry of the acceptance criteria list
+ */
+function validateCriterion(value: any, location: string, errors: string[]): CriterionCoverage | null {
+    const statuses = Object.values(CRITERION_STATUS) as string[];
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        errors.push(`${location} must be an object`);
+        return null;
+    }
+    if (typeof value.id !== 'string' || value.id.trim() === '') {
+        errors.push(`${location}.id must be a non-empty string`);
+        return null;
+    }
+    if (!statuses.includes(value.status)) {
+        errors.push(`${location}.status must be one of ${statuses.join(', ')}`);
+        return null;
+    }
+    const tests = value.tests ?? [];
+    if (!Array.isArray(tests) || tests.some((t) => typeof t !== 'string')) {
+        errors.push(`${location}.tests must be an array of strings`);
+        return null;
+    }
+    if (value.detail !== undefined && value.detail !== null && typeof value.detail !== 'string') {
+        errors.push(`${location}.detail must be a string`);
+        return null;
+    }
+    return {
+        id: value.id.replace(/\s+/g, '').toUpperCase(),
+        status: value.status as CriterionStatus,
+        tests,
+        detail: value.detail?.trim() || undefined,
+    };
+}
+
+/**
+ * Checks a parsed document against the analysis schema
+ * @param value - Parsed JSON value
+ * @returns The typed analysis, or null with the list of schema violations
+ */
+export function validateAnalysisResult(value: any): { result: AnalysisResult | null; errors: string[] } {
+    const errors: string[] = [];
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return { result: null, errors: ['The document must be a JSON object'] };
+    }
+
+    for (const key of ['jiraId', 'title', 'summary']) {
+        if (typeof value[key] !== 'string') {
+            errors.push(`${key} must be a string`);
+        }
+    }
+
+    const lists = {} as Record<(typeof CASE_LISTS)[number], CoverageCase[]>;
+    for (const key of CASE_LISTS) {
+        if (!Array.isArray(value[key])) {
+            errors.push(`${key} must be an array`);
+            continue;
+        }
+        lists[key] = value[key].map((item: any, i: number) => validateCase(item, `${key}[${i}]`, errors));
+    }
+
+    // Documents without criteria, from prompt overrides written before the traceability matrix, stay valid
+    let criteria: CriterionCoverage[] = [];
+    if (value.criteria !== undefined && !Array.isArray(value.criteria)) {
+        errors.push('criteria must be an array');
+    } else {
+        criteria = (value.criteria ?? []).map((item: any, i: number) =>
+            validateCriterion(item, `criteria[${i}]`, errors),
+        );
+    }
+
+    if (!Array.isArray(value.suggestions) || value.suggestions.some((s: any) => typeof s !== 'string')) {
+        errors.push('suggestions must be an array of strings');
+    }
+    if (typeof value.score !== 'number' || !Number.isFinite(value.score)) {
+        errors.push('score must be a number');
+    } else if (value.score < 0 || value.score > MAX_SCORE) {
+        errors.push(`score must be between 0 and ${MAX_SCORE}`);
+    }
+
+    if (errors.length > 0) {
+        return { result: null, errors };
+    }
+    return {
+        result: {
+            jiraId: value.jiraId.trim(),
+            title: value.title.trim(),
+            fullyCovered: lists.fullyCovered,
+            partiallyCovered: lists.partiallyCovered,
+            missing: lists.missing,
+            suggestions: value.suggestions.map((s: string) => s.trim()).filter(Boolean),
+            score: Math.round(value.score * 10) / 10,
+            summary: value.summary.trim(),
+            criteria,
+        },
+        errors,
+    };
+}
+
+/**
+ * Parses and validates a raw model output
+ * @param raw - Raw model output
+ * @returns The typed analysis, or null with the parse or schema errors
+ */
+export function parseAnalysisResult(raw: string): { result: AnalysisResult | null; errors: string[] } {
+    try {
+        return validateAnalysisResult(extractJson(raw));
+    } catch (error: any) {
+        return { result: null, errors: [`The output is not valid JSON: ${error?.message || String(error)}`] };
+    }
+}
+
+/**
+ * Builds the repair request listing what was wrong with the previous output
+ */
+function getRepairPrompt(errors: string[]): string {
+    return renderPrompt(REPAIR_PROMPT, { errors: errors.map((e) => `- ${e}`).join('\n') }, '');
+}
+
+/**
+ * Validates a model's analysis and, while it does not match the schema, sends the output back
+ * to the same model with the validation errors so it can correct it
+ * @param provider - LLM provider used to call the model
+ * @param modelName - Model that produced the output
+ * @param raw - Raw analysis output
+ * @returns Typed model response; `result` stays null when every repair attempt failed
+ */
+export async function getAnalysisResult(provider: LlmProvider, modelName: string, raw: string): Promise<ModelResponse> {
+    const response: ModelResponse = { model: modelName, result: null, raw, errors: [], repairAttempts: 0 };
+
+    for (;;) {
+        const { result, errors } = parseAnalysisResult(response.raw);
+        response.result = result;
+        response.errors = errors;
+        if (result || response.repairAttempts >= MAX_REPAIR_ATTEMPTS) {
+            break;
+        }
+
+        response.repairAttempts++;
+        logger.warn(`Invalid analysis from ${modelName}: ${errors.join('; ')}`);
+        console.log(`⚠️ Asking ${modelName} to repair its analysis (attempt ${response.repairAttempts})`);
+        const repairPrompt = getRepairPrompt(errors);
+        response.raw = await withRetry(provider.source, `Repair ${modelName}`, () =>
+            provider.repair(modelName, response.raw, repairPrompt),
+        );
+    }
+
+    if (!response.result) {
+        console.error(`❌ ${modelName} did not return a valid analysis: ${response.errors.join('; ')}`);
+        logger.error(`Invalid analysis from ${modelName} after ${response.repairAttempts} repair attempt(s)`);
+    }
+    return response;
+}
+
+/**
+ * Merges the analyses of the chunks of one report into a single analysis.
+ * Every chunk sees the whole story but only part of the tests, so a case keeps the best verdict any chunk
+ * gave it: covered in one chunk means covered, and a case is only missing when no chunk found a test for it.
+ * The score is recomputed from the merged cases, counting partially covered cases as half.
+ * @param results - Valid analyses of the chunks
+ * @returns Merged analysis
+ */
+export function mergeAnalysisResults(results: AnalysisResult[]): AnalysisResult {
+    const merged: Array<CoverageCase & { rank: number }> = [];
+    for (const result of results) {
+        CASE_LISTS.forEach((list, index) => {
+            const rank = CASE_LISTS.length - index;
+            for (const item of result[list]) {
+                const existing = merged.find((m) => isSameCase(m.case, item.case));
+                if (!existing) {
+                    merged.push({ ...item, tests: [...item.tests], rank });
+                    continue;
+                }
+                existing.tests = [...new Set([...existing.tests, ...item.tests])];
+                existing.file = existing.file ?? item.file;
+                if (rank > existing.rank) {
+                    existing.rank = rank;
+                    existing.detail = item.detail;
+                }
+            }
+        });
+    }
+
+    const byRank = (rank: number): CoverageCase[] =>
+        merged.filter((m) => m.rank === rank).map(({ rank: _rank, ...item }) => item);
+    const fullyCovered = byRank(3);
+    const partiallyCovered = byRank(2);
+    const missing = byRank(1);
+    const total = merged.length;
+    const score =
+        total > 0
+            ? ((fullyCovered.length + partiallyCovered.length / 2) / total) * MAX_SCORE
+            : results.reduce((sum, r) => sum + r.score, 0) / results.length;
+
+    return {
+        jiraId: results[0].jiraId,
+        title: results[0].title,
+        fullyCovered,
+        partiallyCovered,
+        missing,
+        suggestions: [...new Set(results.flatMap((r) => r.suggestions))],
+        score: Math.round(score * 10) / 10,
+        summary: results.map((r) => r.summary).join(' '),
+        criteria: mergeCriterionCoverage(results.flatMap((r) => r.criteria)),
+    };
+}
+
+/**
+ * Combines the responses a model gave for the chunks of one report
+ * @param modelName - Model that analysed the chunks
+ * @param responses - Validated response of each chunk
+ * @returns Single response; the chunks without a valid analysis are listed in `errors`
+ */
+export function mergeModelResponses(modelName: string, responses: ModelResponse[]): ModelResponse {
+    if (responses.length === 1) {
+        return responses[0];
+    }
+    const valid = responses.filter((r) => r.result).map((r) => r.result);
+    return {
+        model: modelName,
+        result: valid.length > 0 ? mergeAnalysisResults(valid) : null,
+        raw: responses.map((r) => r.raw).join('\n\n'),
+        errors: responses.flatMap((r, i) => r.errors.map((e) => `Part ${i + 1}: ${e}`)),
+        repairAttempts: responses.reduce((total, r) => total + r.repairAttempts, 0),
+    };
+}
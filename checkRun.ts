@@ -0,0 +1,233 @@
+/**
+ * GitHub Check Run
+ * Publishes the analysis as a check run with a pass/fail conclusion, so branch protection can require it,
+ * and annotates the changed source files with their missing and partially covered test cases
+ */
+
+import { logger } from 'OpenRouterAICore/pino';
+import { isSameCase } from './consensus';
+import { findFileKey } from './coverage';
+import { formatScore } from './formatting';
+import { withRetry } from './retry';
+import { API_SOURCE } from './constants';
+import { createGitHubClient } from './githubContext';
+import { getTicketFiles } from './jiraTickets';
+import type {
+    AnalysisRun,
+    CheckAnnotation,
+    CheckRunReport,
+    CoverageCase,
+    FileFinding,
+    FileFindings,
+    QualityGateResult,
+    QualityMetrics,
+    TicketAnalysis,
+} from './types';
+
+/**
+ * Annotations the Checks API accepts per request; the rest are sent in follow-up updates
+ */
+const MAX_ANNOTATIONS_PER_REQUEST = 50;
+
+/**
+ * Maximum length of the check summary and of an annotation message
+ */
+const MAX_TEXT_LENGTH = 65535;
+
+/**
+ * Case lists annotated on the source files, with the label used in the annotation
+ */
+const ANNOTATED_LISTS = [
+    { key: 'missing', label: 'Missing' },
+    { key: 'partiallyCovered', label: 'Partially covered' },
+] as const;
+
+/**
+ * Shortens text to the length the Checks API accepts
+ */
+function truncate(text: string): string {
+    const marker = '\n\n… truncated';
+    return text.length > MAX_TEXT_LENGTH ? text.slice(0, MAX_TEXT_LENGTH - marker.length) + marker : text;
+}
+
+/**
+ * Groups the missing and partially covered test cases by the changed source file the models tied them to.
+ * The missing cases are the ones the quality gate counts: with several models, the cases every model
+ * reported, listed with those models. Partially covered cases several models report with different wording
+ * are listed once, with the models that reported them.
+ * @param run - Model responses, failed ones included, and their consensus
+ * @param changedFiles - Files changed by the PR; when empty, the files are taken as the models named them
+ * @returns Findings of each file; cases not tied to a changed file are left out
+ */
+export function getFileFindings(
+    run: Pick<AnalysisRun, 'modelResponses' | 'consensus'>,
+    changedFiles: string[],
+): Map<string, FileFindings> {
+    const findings = new Map<string, FileFindings>();
+    const valid = run.modelResponses.filter((r) => r.result);
+
+    const resolveFile = (item: CoverageCase): string | undefined =>
+        item.file && changedFiles.length === 0
+            ? item.file.replace(/^\.?\//, '')
+            : item.file
+              ? findFileKey(changedFiles, item.file)
+              : undefined;
+    const listOf = (file: string, key: keyof FileFindings): FileFinding[] => {
+        if (!findings.has(file)) {
+            findings.set(file, { missing: [], partiallyCovered: [] });
+        }
+        return findings.get(file)[key];
+    };
+
+    if (run.consensus) {
+        for (const agreed of run.consensus.agreedMissing) {
+            const item = valid
+                .flatMap((r) => r.result.missing)
+                .find((m) => isSameCase(m.case, agreed.case) && resolveFile(m));
+            if (item) {
+                listOf(resolveFile(item), 'missing').push({ item, models: agreed.models });
+            }
+        }
+    } else {
+        for (const response of valid) {
+            for (const item of response.result.missing) {
+                const file = resolveFile(item);
+                if (file) {
+                    listOf(file, 'missing').push({ item, models: [response.model] });
+                }
+            }
+        }
+    }
+
+    for (const response of valid) {
+        for (const item of response.result.partiallyCovered) {
+            const file = resolveFile(item);
+            if (!file) {
+                continue;
+            }
+            const list = listOf(file, 'partiallyCovered');
+            const existing = list.find((f) => isSameCase(f.item.case, item.case));
+            if (!existing) {
+                list.push({ item, models: [response.model] });
+            } else if (!existing.models.includes(response.model)) {
+                existing.models.push(response.model);
+            }
+        }
+    }
+    return findings;
+}
+
+/**
+ * Builds one annotation per changed source file listing its missing and partially covered test cases,
+ * so the missing cases of the annotations add up to the missing case count of the check.
+ * Cases the models did not tie to a changed file are left to the summary.
+ * @param analyses - Analysis of each ticket
+ * @param changedFiles - Files changed by the PR, for tickets without files of their own
+ * @returns Annotations, one per file with findings
+ */
+export function getCheckAnnotations(analyses: TicketAnalysis[], changedFiles: string[]): CheckAnnotation[] {
+    const lines = new Map<string, Record<keyof FileFindings, string[]>>();
+
+    for (const { issue, ticket, run } of analyses) {
+        const withModels = run.modelResponses.filter((r) => r.result).length > 1;
+        const describe = ({ item, models }: FileFinding): string => {
+            const ticketKey = analyses.length > 1 ? `${issue.key}: ` : '';
+            const detail = item.detail ? `: ${item.detail}` : '';
+            const source = withModels ? ` (${models.join(', ')})` : '';
+            return `- ${ticketKey}${item.case}${detail}${source}`;
+        };
+
+        for (const [file, lists] of getFileFindings(run, getTicketFiles(ticket, changedFiles))) {
+            if (!lines.has(file)) {
+                lines.set(file, { missing: [], partiallyCovered: [] });
+            }
+            for (const { key } of ANNOTATED_LISTS) {
+                lines.get(file)[key].push(...lists[key].map(describe));
+            }
+        }
+    }
+
+    return [...lines.entries()].map(([file, lists]) => {
+        const sections = ANNOTATED_LISTS.filter(({ key }) => lists[key].length > 0).map(
+            ({ key, label }) => `${label}:\n${lists[key].join('\n')}`,
+        );
+        return {
+            path: file,
+            start_line: 1,
+            end_line: 1,
+            annotation_level: lists.missing.length > 0 ? 'warning' : 'notice',
+            title: `${lists.missing.length} missing, ${lists.partiallyCovered.length} partially covered test case(s)`,
+            message: truncate(sections.join('\n\n')),
+        };
+    });
+}
+
+/**
+ * Builds the headline of the check
+ * @param metrics - Metrics of the run
+ * @param gate - Quality gate outcome
+ * @returns One line title
+ */
+export function getCheckRunTitle(metrics: QualityMetrics, gate: QualityGateResult): string {
+    const parts = [
+        metrics.score === null ? 'No valid analysis' : `Score ${formatScore(metrics.score)}`,
+        ...(metrics.missingCount === null ? [] : [`${metrics.missingCount} missing test case(s)`]),
+    ];
+    if (gate.checks.length > 0) {
+        parts.push(gate.passed ? 'quality gate passed' : 'quality gate failed');
+    }
+    return parts.join(', ');
+}
+
+/**
+ * Creates a completed check run on the head commit of the PR.
+ * Annotations beyond the per-request limit are added by updating the check run.
+ * @param name - Check run name, the name branch protection refers to
+ * @param report - Conclusion, title, summary and annotations
+ * @returns URL of the check run
+ * @throws Error when the head commit is unknown or the GitHub API call fails after the retries
+ */
+export async function createCheckRun(name: string, report: CheckRunReport): Promise<string> {
+    const headSha = process.env.GITHUB_HEAD_SHA || process.env.GITHUB_SHA;
+    if (!headSha) {
+        throw new Error('GITHUB_HEAD_SHA is not set, the commit to attach the check run to is unknown');
+    }
+
+    const { octokit, repository } = createGitHubClient();
+    const output = (annotations: CheckAnnotation[]) => ({
+        title: report.title,
+        summary: truncate(report.summary),
+        annotations,
+    });
+
+    const batches: CheckAnnotation[][] = [];
+    for (let i = 0; i < report.annotations.length; i += MAX_ANNOTATIONS_PER_REQUEST) {
+        batches.push(report.annotations.slice(i, i + MAX_ANNOTATIONS_PER_REQUEST));
+    }
+
+    const { data }: Awaited<ReturnType<typeof octokit.rest.checks.create>> = await withRetry(
+        API_SOURCE.GITHUB,
+        'Create check run',
+        () =>
+            octokit.rest.checks.create({
+                ...repository,
+                name,
+                head_sha: headSha,
+                status: 'completed',
+                conclusion: report.conclusion,
+                output: output(batches[0] ?? []),
+            }),
+        false,
+    );
+    for (const [index, batch] of batches.slice(1).entries()) {
+        // Annotations sent in an update are appended, so a repeated update would add them twice
+        await withRetry(
+            API_SOURCE.GITHUB,
+            `Add check run annotations (${index + 2}/${batches.length})`,
+            () => octokit.rest.checks.update({ ...repository, check_run_id: data.id, output: output(batch) }),
+            false,
+        );
+    }
+    logger.info(`Check run ${name} created with ${report.annotations.length} annotation(s)`);
+    return data.html_url;
+}
@@ -0,0 +1,229 @@
+/**
+ * Local CLI
+ * Runs the analysis on a developer machine and writes the results to a directory instead of
+ * publishing them to Confluence and the pull request
+ *
+ * Usage:
+ *   npx ts-node cli.ts --report coverage/ut-results.json --ticket TEL-123 --base origin/main --out quality-report
+ *   npx ts-node cli.ts --story-file story.txt --formats markdown,sarif
+ */
+
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { ENV_VARIABLES as GlobalENV } from 'OpenRouterAICore/environment';
+import { ENV_VARIABLES } from './environment';
+import { analyzeTickets, renderTicketPage, renderTicketSummary, runAnalysis } from './analysisPipeline';
+import {
+    combineQualityMetrics,
+    evaluateQualityGate,
+    getQualityGateFailures,
+    getQualityGateSummary,
+    getQualityMetrics,
+    getQualityThresholds,
+} from './qualityGate';
+import { extractAcceptanceCriteria } from './acceptanceCriteria';
+import { parseExportFormats, writeReports } from './exporters';
+import type { AnalysisOptions, JiraIssue, TicketAnalysis } from './types';
+
+/**
+ * Directory the results are written to when `--out` is not given
+ */
+const DEFAULT_OUTPUT_DIR = 'quality-report';
+
+/**
+ * PR number shown to the model for local runs
+ */
+const LOCAL_PR_NUMBER = 'local';
+
+/**
+ * Key shown for a story passed with `--story` or `--story-file`
+ */
+const LOCAL_STORY_KEY = 'STORY';
+
+/**
+ * Help text of the CLI
+ */
+const USAGE = `Usage: npx ts-node cli.ts [options]
+
+Options:
+  --report <path>       Test report path or glob (default: REPORT_FILE_PATH or coverage/ut-results.json)
+  --story <text>        Jira story text
+  --story-file <path>   File holding the Jira story
+  --ticket <ids>        Comma-separated Jira tickets to fetch the stories from (needs the Jira settings)
+  --base <ref>          Git ref to diff against; only the report entries of the changed files are analysed
+  --out <dir>           Output directory (default: ${DEFAULT_OUTPUT_DIR})
+  --formats <list>      Comma-separated report formats: markdown, html, json, sarif (default: OUTPUT_FORMATS)
+  --models <list>       Comma-separated models (default: OPEN_ROUTER_MODEL)
+  --use-for <name>      Prompt template (default: USE_FOR or GenerateTestCasesReport_API)
+  --help                Show this help`;
+
+/**
+ * Parsed command line flags
+ */
+interface CliOptions {
+    report?: string;
+    story?: string;
+    storyFile?: string;
+    ticket?: string;
+    base?: string;
+    out: string;
+    formats?: string;
+    models?: string;
+    useFor?: string;
+}
+
+/**
+ * Parses the command line
+ * @param args - Arguments after the script name
+ * @returns Parsed flags, or null when the help was requested
+ * @throws Error for unknown flags or a missing story source
+ */
+function parseCliArgs(args: string[]): CliOptions | null {
+    const { values } = parseArgs({
+        args,
+        options: {
+            report: { type: 'string' },
+            story: { type: 'string' },
+            'story-file': { type: 'string' },
+            ticket: { type: 'string' },
+            base: { type: 'string' },
+            out: { type: 'string', default: DEFAULT_OUTPUT_DIR },
+            formats: { type: 'string' },
+            models: { type: 'string' },
+            'use-for': { type: 'string' },
+            help: { type: 'boolean', default: false },
+        },
+    });
+    if (values.help) {
+        return null;
+    }
+    const storySources = [values.story, values['story-file'], values.ticket].filter((v) => v !== undefined);
+    if (storySources.length !== 1) {
+        throw new Error('Pass exactly one of --story, --story-file or --ticket');
+    }
+    return {
+        report: values.report,
+        story: values.story,
+        storyFile: values['story-file'],
+        ticket: values.ticket,
+        base: values.base,
+        out: values.out,
+        formats: values.formats,
+        models: values.models,
+        useFor: values['use-for'],
+    };
+}
+
+/**
+ * Lists the files changed since the branch left the base ref, including uncommitted and untracked files
+ * @param base - Git ref, e.g. `origin/main`
+ * @returns Repository relative paths
+ */
+function getChangedFiles(base: string): string[] {
+    const git = (...args: string[]): string => execFileSync('git', args, { encoding: 'utf8' }).trim();
+    const mergeBase = git('merge-base', base, 'HEAD');
+    const changed = git('diff', '--name-only', mergeBase).split('\n');
+    const untracked = git('ls-files', '--others', '--exclude-standard').split('\n');
+    return [...new Set([...changed, ...untracked])].filter(Boolean);
+}
+
+/**
+ * Runs the analysis and writes the report files of the requested formats (see `writeReports`) and
+ * `prompt.txt` to the output directory.
+ * Exits with a failing code when the quality gate fails, like the GitHub Action.
+ */
+async function run(): Promise<void> {
+    const options = parseCliArgs(process.argv.slice(2));
+    if (!options) {
+        console.log(USAGE);
+        return;
+    }
+    const thresholds = getQualityThresholds(ENV_VARIABLES);
+    const formats = parseExportFormats(options.formats ?? ENV_VARIABLES.OUTPUT_FORMATS);
+
+    const changedFiles = options.base ? getChangedFiles(options.base) : [];
+    if (options.base) {
+        console.log(`✅ ${changedFiles.length} file(s) changed since ${options.base}`);
+    }
+
+    fs.mkdirSync(options.out, { recursive: true });
+    const promptName = options.useFor || GlobalENV.USE_FOR || 'GenerateTestCasesReport_API';
+    const analysisOptions: Omit<AnalysisOptions, 'story' | 'criteria'> = {
+        changedFiles,
+        modelNames: (options.models ?? GlobalENV.OPEN_ROUTER_MODEL ?? '')
+            .split(',')
+            .map((name: string) => name.trim())
+            .filter(Boolean),
+        promptName,
+        repo: path.basename(process.cwd()),
+        prNumber: LOCAL_PR_NUMBER,
+        promptOutputPath: path.join(options.out, 'prompt.txt'),
+        settings: {
+            ...ENV_VARIABLES,
+            REPORT_FILE_PATH: options.report || ENV_VARIABLES.REPORT_FILE_PATH || 'coverage/ut-results.json',
+        },
+    };
+
+    let analyses: TicketAnalysis[];
+    if (options.ticket) {
+        const keys = options.ticket
+            .split(',')
+            .map((key) => key.trim().toUpperCase())
+            .filter(Boolean);
+        analyses = await analyzeTickets(
+            keys.map((key) => ({ key, sources: [], files: null })),
+            analysisOptions,
+        );
+    } else {
+        const story = options.story ?? fs.readFileSync(options.storyFile, 'utf8');
+        const issue: JiraIssue = {
+            key: LOCAL_STORY_KEY,
+            summary: story.split('\n')[0],
+            description: story,
+            fields: {},
+            fieldNames: {},
+            url: '',
+        };
+        const criteria = extractAcceptanceCriteria(issue, '');
+        console.log(`✅ ${criteria.length} acceptance criteria found in the story`);
+        const analysis = await runAnalysis({ ...analysisOptions, story, criteria });
+        analyses = [
+            {
+                ticket: { key: LOCAL_STORY_KEY, sources: [], files: null },
+                issue,
+                run: analysis,
+                metrics: getQualityMetrics(analysis),
+            },
+        ];
+    }
+
+    const gate = evaluateQualityGate(combineQualityMetrics(analyses.map((a) => a.metrics)), thresholds);
+    const date = new Date().toISOString();
+    writeReports(options.out, formats, {
+        date,
+        promptName,
+        repo: analysisOptions.repo,
+        pullRequestUrl: '',
+        changedFiles,
+        analyses,
+        gate,
+        summary: `## Quality Checker Overview\n${renderTicketSummary(analyses)}${getQualityGateSummary(gate)}`,
+        page: `<b>Date:-</b>${date}<br /><b>For:-</b>${promptName}<br />` + renderTicketPage(analyses),
+    });
+    console.log(`✅ Results written to ${path.resolve(options.out)}`);
+    if (!gate.passed) {
+        console.error(
+            `❌ Quality gate failed:\n${getQualityGateFailures(gate)
+                .map((f) => `   - ${f}`)
+                .join('\n')}`,
+        );
+        process.exitCode = 1;
+    }
+}
+
+run().catch((error) => {
+    console.error(`❌ ${error?.message || String(error)}`);
+    process.exitCode = 1;
+});
@@ -0,0 +1,30 @@
+/**
+ * Concurrency Helpers
+ * Runs asynchronous work over a list with a bounded number of tasks in flight
+ */
+
+/**
+ * Maps the items with at most `limit` calls running at the same time, keeping the input order in the result
+ * @param items - Items to process
+ * @param limit - Maximum number of concurrent calls, at least 1
+ * @param fn - Asynchronous mapper
+ * @returns Mapped values in input order
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+
+    const worker = async (): Promise<void> => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index], index);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+    return results;
+}
@@ -0,0 +1,216 @@
+/**
+ * Confluence Publisher
+ * Publishes the report page of a PR: later runs find the page by its title and update it with a new version,
+ * so the space holds one page per PR with the earlier runs in its page history
+ */
+
+import { atlassianRequest } from './jiraClient';
+import { withRetry } from './retry';
+import { API_SOURCE, CONFLUENCE_PAGE_LEVELS } from './constants';
+import type { ConfluencePageLevel } from './constants';
+import type { AtlassianSite, ConfluencePageResponse, ConfluenceReport, EnvironmentConfig } from './types';
+
+/**
+ * Confluence REST API path of the pages
+ */
+const CONTENT_PATH = '/wiki/rest/api/content';
+
+/**
+ * Prefix of the titles of the pages the action creates
+ */
+const TITLE_PREFIX = 'Test Quality';
+
+/**
+ * Label added to every report page
+ */
+const REPORT_LABEL = 'test-quality';
+
+/**
+ * Parses the CONFLUENCE_PAGE_HIERARCHY setting
+ * @param value - Comma-separated levels; empty to publish the report pages directly under the parent
+ * @returns Levels, repo before ticket whatever the order given
+ * @throws Error for unknown levels
+ */
+export function parsePageHierarchy(value: string): ConfluencePageLevel[] {
+    const all = Object.values(CONFLUENCE_PAGE_LEVELS) as ConfluencePageLevel[];
+    const levels = value
+        .split(',')
+        .map((l) => l.trim().toLowerCase())
+        .filter(Boolean);
+    const unknown = levels.filter((l) => !all.includes(l as ConfluencePageLevel));
+    if (unknown.length > 0) {
+        throw new Error(`Unknown CONFLUENCE_PAGE_HIERARCHY ${unknown.join(', ')}, expected any of: ${all.join(', ')}`);
+    }
+    return all.filter((level) => levels.includes(level));
+}
+
+/**
+ * Turns a name into a Confluence label: lower case, without spaces or punctuation
+ */
+function toLabel(name: string): string {
+    return name
+        .trim()
+        .toLowerCase()
+        .replace(/[^a-z0-9_-]+/g, '-')
+        .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Body of a page in Confluence storage format
+ */
+function storageBody(content: string): Record<string, unknown> {
+    return { storage: { value: content, representation: 'storage' } };
+}
+
+/**
+ * Finds a page by its title; titles are unique within a space
+ * @returns Page with its version, or null when there is none
+ */
+async function findPage(site: AtlassianSite, spaceKey: string, title: string): Promise<any | null> {
+    const found = await withRetry(API_SOURCE.CONFLUENCE, `Find Confluence page ${title}`, () =>
+        atlassianRequest(
+            site,
+            'GET',
+            `${CONTENT_PATH}?spaceKey=${encodeURIComponent(spaceKey)}&title=${encodeURIComponent(title)}` +
+                '&type=page&expand=version',
+        ),
+    );
+    return found?.results?.[0] ?? null;
+}
+
+/**
+ * Creates a page. When another run created a page with the same title in the meantime, that page is
+ * returned instead.
+ * @returns Page, and whether this call created it
+ */
+async function createPage(
+    site: AtlassianSite,
+    spaceKey: string,
+    title: string,
+    content: string,
+    parentId: string | null,
+): Promise<{ page: any; created: boolean }> {
+    try {
+        let attempted = false;
+        const page = await withRetry(API_SOURCE.CONFLUENCE, `Create Confluence page ${title}`, async () => {
+            // A failed attempt may still have created the page, so look for it before posting again
+            const created = attempted ? await findPage(site, spaceKey, title) : null;
+            attempted = true;
+            return (
+                created ??
+                atlassianRequest(site, 'POST', CONTENT_PATH, {
+                    type: 'page',
+                    title,
+                    space: { key: spaceKey },
+                    ...(parentId ? { ancestors: [{ id: parentId }] } : {}),
+                    body: storageBody(content),
+                })
+            );
+        });
+        return { page, created: true };
+    } catch (error: any) {
+        const existing = error?.status === 400 ? await findPage(site, spaceKey, title) : null;
+        if (!existing) {
+            throw error;
+        }
+        return { page: existing, created: false };
+    }
+}
+
+/**
+ * Finds or creates the pages of the hierarchy the report page is nested in. Existing pages are left as they are.
+ * @returns ID of the report page's parent, or null for the top of the space
+ */
+async function resolveParent(
+    site: AtlassianSite,
+    spaceKey: string,
+    report: ConfluenceReport,
+    hierarchy: ConfluencePageLevel[],
+    parentId: string,
+): Promise<string | null> {
+    const withRepo = hierarchy.includes(CONFLUENCE_PAGE_LEVELS.REPO);
+    const levels = hierarchy.map((level) =>
+        level === CONFLUENCE_PAGE_LEVELS.REPO
+            ? {
+                  title: `${TITLE_PREFIX}: ${report.repo}`,
+                  content: `<p>Test quality reports of the pull requests of ${report.repo}.</p>`,
+              }
+            : {
+                  title: `${TITLE_PREFIX}: ${report.tickets[0]}${withRepo ? ` · ${report.repo}` : ''}`,
+                  content: `<p>Test quality reports of the pull requests for ${report.tickets[0]}.</p>`,
+              },
+    );
+
+    let parent = parentId || null;
+    for (const { title, content } of levels) {
+        const page =
+            (await findPage(site, spaceKey, title)) ?? (await createPage(site, spaceKey, title, content, parent)).page;
+        parent = String(page.id);
+    }
+    return parent;
+}
+
+/**
+ * Publishes the report page of the PR: updates the page of an earlier run with a new version, or creates it
+ * below the configured parent and hierarchy, then adds the labels. A page moved by hand stays where it is
+ * unless a parent or hierarchy is configured.
+ * @param report - Page content and the repository, PR and tickets it reports on
+ * @param hierarchy - Levels of pages between the parent and the report page
+ * @param settings - Confluence output settings, CONFLUENCE_PARENT_PAGE_ID and CONFLUENCE_LABELS
+ * @returns Page ID, title, URL and version
+ * @throws The Confluence error once the retries are exhausted
+ */
+export async function publishConfluencePage(
+    report: ConfluenceReport,
+    hierarchy: ConfluencePageLevel[],
+    settings: EnvironmentConfig,
+): Promise<ConfluencePageResponse> {
+    const site: AtlassianSite = {
+        url: settings.JIRA_URL_OUTPUT,
+        email: settings.JIRA_EMAIL_OUTPUT,
+        apiToken: settings.JIRA_API_TOKEN_OUTPUT,
+    };
+    const spaceKey = settings.JIRA_SPACE_KEY_OUTPUT;
+    const parentId = await resolveParent(site, spaceKey, report, hierarchy, settings.CONFLUENCE_PARENT_PAGE_ID);
+    // Keyed on the PR only: the tickets found, and their order, can change between runs
+    const title = `${TITLE_PREFIX}: ${report.repo}#${report.pullRequest}`;
+
+    const existing = await findPage(site, spaceKey, title);
+    const created = existing ? null : await createPage(site, spaceKey, title, report.content, parentId);
+    const page = created?.created
+        ? created.page
+        : await withRetry(API_SOURCE.CONFLUENCE, `Update Confluence page ${title}`, () => {
+              const current = existing ?? created.page;
+              return atlassianRequest(site, 'PUT', `${CONTENT_PATH}/${current.id}`, {
+                  type: 'page',
+                  title,
+                  space: { key: spaceKey },
+                  ...(parentId ? { ancestors: [{ id: parentId }] } : {}),
+                  body: storageBody(report.content),
+                  version: { number: (current.version?.number ?? 0) + 1, message: report.versionMessage },
+              });
+          });
+
+    const labels = [
+        ...new Set(
+            [REPORT_LABEL, report.repo, ...report.tickets, ...(settings.CONFLUENCE_LABELS || '').split(',')]
+                .map(toLabel)
+                .filter(Boolean),
+        ),
+    ];
+    await withRetry(API_SOURCE.CONFLUENCE, `Label Confluence page ${title}`, () =>
+        atlassianRequest(
+            site,
+            'POST',
+            `${CONTENT_PATH}/${page.id}/label`,
+            labels.map((name) => ({ prefix: 'global', name })),
+        ),
+    );
+
+    return {
+        pageId: String(page.id),
+        pageTitle: page.title ?? title,
+        url: page._links?.base && page._links?.webui ? `${page._links.base}${page._links.webui}` : undefined,
+        version: page.version?.number,
+    };
+}
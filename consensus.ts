@@ -0,0 +1,140 @@
+/**
+ * Multi-Model Consensus
+ * Combines the analyses of several models into one verdict and points out where they disagree
+ */
+
+import { escapeHtml, formatScore } from './formatting';
+import type { ConsensusCase, ConsensusResult, ModelResponse } from './types';
+
+/**
+ * Share of common words above which two missing cases from different models are treated as the same case
+ */
+const SIMILARITY_THRESHOLD = 0.5;
+
+/**
+ * Words ignored when comparing case descriptions
+ */
+const STOP_WORDS = new Set('a an the is are be to of for and or in on when with should it that'.split(' '));
+
+/**
+ * Rounds to one decimal, the precision of the model scores
+ */
+function round(value: number): number {
+    return Math.round(value * 10) / 10;
+}
+
+/**
+ * Median of a non-empty list of numbers
+ */
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Reduces a case description to its significant words
+ */
+function toWords(text: string): Set<string> {
+    return new Set(
+        text
+            .toLowerCase()
+            .split(/[^a-z0-9]+/)
+            .filter((word) => word.length > 1 && !STOP_WORDS.has(word)),
+    );
+}
+
+/**
+ * Jaccard similarity of two word sets
+ */
+function similarity(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 || b.size === 0) {
+        return 0;
+    }
+    const shared = [...a].filter((word) => b.has(word)).length;
+    return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Whether two case descriptions, possibly worded differently, describe the same test case
+ * @param a - First case description
+ * @param b - Second case description
+ * @returns True when enough significant words are shared
+ */
+export function isSameCase(a: string, b: string): boolean {
+    return similarity(toWords(a), toWords(b)) >= SIMILARITY_THRESHOLD;
+}
+
+/**
+ * Groups the missing cases of all models, merging cases whose wording is close enough
+ * @param responses - Model responses with a valid analysis
+ * @returns One entry per distinct case with the models that reported it
+ */
+export function groupMissingCases(responses: ModelResponse[]): ConsensusCase[] {
+    const groups: Array<ConsensusCase & { words: Set<string> }> = [];
+    for (const response of responses) {
+        for (const item of response.result?.missing ?? []) {
+            const words = toWords(item.case);
+            const group = groups.find((g) => similarity(g.words, words) >= SIMILARITY_THRESHOLD);
+            if (!group) {
+                groups.push({ case: item.case, models: [response.model], words });
+            } else if (!group.models.includes(response.model)) {
+                group.models.push(response.model);
+            }
+        }
+    }
+    return groups.map(({ case: text, models }) => ({ case: text, models }));
+}
+
+/**
+ * Builds the consensus of the models that returned a valid analysis
+ * @param responses - All model responses, failed ones included
+ * @returns Consensus, or null when fewer than two models returned a valid analysis
+ */
+export function buildConsensus(responses: ModelResponse[]): ConsensusResult | null {
+    const valid = responses.filter((r) => r.result);
+    if (valid.length < 2) {
+        return null;
+    }
+
+    const scores = valid.map((r) => r.result.score);
+    const groups = groupMissingCases(valid);
+    return {
+        models: valid.map((r) => r.model),
+        failedModels: responses.filter((r) => !r.result).map((r) => r.model),
+        median: round(median(scores)),
+        mean: round(scores.reduce((total, score) => total + score, 0) / scores.length),
+        spread: round(Math.max(...scores) - Math.min(...scores)),
+        agreedMissing: groups.filter((g) => g.models.length === valid.length),
+        disputedMissing: groups.filter((g) => g.models.length < valid.length),
+    };
+}
+
+/**
+ * Renders the consensus for the PR comment and the Confluence page
+ * @param consensus - Consensus of the models, or null for a single model run
+ * @returns HTML formatted summary, or an empty string without consensus
+ */
+export function getConsensusSummary(consensus: ConsensusResult | null): string {
+    if (!consensus) {
+        return '';
+    }
+    let summary =
+        `\n<b>Consensus:-</b> <b>${formatScore(consensus.median)}</b> median, ${formatScore(consensus.mean)} mean ` +
+        `across ${consensus.models.length} models (scores differ by up to ${consensus.spread})`;
+    if (consensus.failedModels.length > 0) {
+        summary += `\n<b>Not included:-</b> ${consensus.failedModels.map(escapeHtml).join(', ')}`;
+    }
+    if (consensus.agreedMissing.length > 0) {
+        summary += `\n<b>Missing according to every model:-</b> ${consensus.agreedMissing.length}`;
+    }
+    if (consensus.disputedMissing.length > 0) {
+        const items = consensus.disputedMissing.map(
+            (c) => `<li>${escapeHtml(c.case)} (${c.models.map(escapeHtml).join(', ')})</li>`,
+        );
+        summary +=
+            `\n<details><summary>Missing according to some models only (${items.length})</summary>` +
+            `<ul>${items.join('')}</ul></details>`;
+    }
+    return summary;
+}
@@ -11,8 +11,12 @@ export const HTTP_STATUS = {
   UNAUTHORIZED: 401,
   FORBIDDEN: 403,
   NOT_FOUND: 404,
+  REQUEST_TIMEOUT: 408,
   TOO_MANY_REQUESTS: 429,
   INTERNAL_SERVER_ERROR: 500,
+  BAD_GATEWAY: 502,
+  SERVICE_UNAVAILABLE: 503,
+  GATEWAY_TIMEOUT: 504,
 } as const;
 
 /**
@@ -24,8 +28,76 @@ export const API_SOURCE = {
   OPENROUTER: 'OpenRouter AI API',
   GITHUB: 'GitHub API',
   S3: 'Confluence/S3 API',
+  LLM: 'LLM API',
 } as const;
 
+/**
+ * LLM providers selectable with LLM_PROVIDER
+ */
+export const LLM_PROVIDERS = {
+  OPENROUTER: 'openrouter',
+  OPENAI_COMPATIBLE: 'openai-compatible',
+  FIXTURE: 'fixture',
+} as const;
+
+/**
+ * Places Jira tickets are discovered in, selectable with JIRA_TICKET_SOURCES
+ */
+export const TICKET_SOURCES = {
+  BRANCH: 'branch',
+  TITLE: 'title',
+  BODY: 'body',
+  COMMITS: 'commits',
+} as const;
+
+/**
+ * Verdicts of an acceptance criterion in the traceability matrix, from best to worst
+ */
+export const CRITERION_STATUS = {
+  COVERED: 'covered',
+  PARTIAL: 'partial',
+  MISSING: 'missing',
+} as const;
+
+/**
+ * Levels of the Confluence page hierarchy the report pages are nested in, from the top
+ */
+export const CONFLUENCE_PAGE_LEVELS = {
+  REPO: 'repo',
+  TICKET: 'ticket',
+} as const;
+
+/**
+ * Report file formats written to OUTPUT_DIR
+ */
+export const EXPORT_FORMATS = {
+  MARKDOWN: 'markdown',
+  HTML: 'html',
+  JSON: 'json',
+  SARIF: 'sarif',
+} as const;
+
+/**
+ * Retry configuration for calls to external APIs
+ */
+export const RETRY_CONFIG = {
+  MAX_ATTEMPTS: 5,
+  BASE_DELAY_MS: 1000,
+  MAX_DELAY_MS: 60000,
+} as const;
+
+/**
+ * Total time each API source may spend waiting on retries during one run
+ */
+export const RETRY_BUDGET_MS: Record<ApiSource, number> = {
+  [API_SOURCE.JIRA]: 60000,
+  [API_SOURCE.CONFLUENCE]: 60000,
+  [API_SOURCE.OPENROUTER]: 180000,
+  [API_SOURCE.GITHUB]: 60000,
+  [API_SOURCE.S3]: 60000,
+  [API_SOURCE.LLM]: 180000,
+};
+
 /**
  * Error Messages
  */
@@ -178,5 +250,10 @@ export const ENV_KEYS = {
  */
 export type HttpStatus = typeof HTTP_STATUS[keyof typeof HTTP_STATUS];
 export type ApiSource = typeof API_SOURCE[keyof typeof API_SOURCE];
+export type LlmProviderName = typeof LLM_PROVIDERS[keyof typeof LLM_PROVIDERS];
+export type TicketSource = typeof TICKET_SOURCES[keyof typeof TICKET_SOURCES];
+export type CriterionStatus = typeof CRITERION_STATUS[keyof typeof CRITERION_STATUS];
+export type ConfluencePageLevel = typeof CONFLUENCE_PAGE_LEVELS[keyof typeof CONFLUENCE_PAGE_LEVELS];
+export type ExportFormat = typeof EXPORT_FORMATS[keyof typeof EXPORT_FORMATS];
 export type ErrorMessage = typeof ERROR_MESSAGES[keyof typeof ERROR_MESSAGES];
 export type ExecutionStep = typeof EXECUTION_STEPS[keyof typeof EXECUTION_STEPS];
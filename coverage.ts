@@ -0,0 +1,226 @@
+/**
+ * Istanbul Coverage Module
+ * Reads nyc/Istanbul coverage output and summarizes it for the files changed in the Pull Request
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { logger } from 'OpenRouterAICore/pino';
+import type { CoverageReport, FileCoverage } from './types';
+
+/**
+ * Coverage files written by nyc/Istanbul's `json-summary` and `json` reporters
+ */
+const COVERAGE_FILES = {
+    SUMMARY: 'coverage-summary.json',
+    FINAL: 'coverage-final.json',
+} as const;
+
+/**
+ * Percentage of covered items, rounded to two decimals. Files with nothing to cover count as fully covered.
+ */
+function percentage(covered: number, total: number): number {
+    return total === 0 ? 100 : Math.round((covered / total) * 10000) / 100;
+}
+
+/**
+ * Collapses a list of line numbers into readable ranges, e.g. [3, 4, 5, 9] → ['3-5', '9']
+ * @param lines - Line numbers
+ * @returns Line ranges
+ */
+export function toLineRanges(lines: number[]): string[] {
+    const sorted = [...new Set(lines)].sort((a, b) => a - b);
+    const ranges: string[] = [];
+    let start = sorted[0];
+    let previous = sorted[0];
+
+    for (const line of sorted.slice(1).concat(NaN)) {
+        if (line === previous + 1) {
+            previous = line;
+            continue;
+        }
+        if (start !== undefined) {
+            ranges.push(start === previous ? `${start}` : `${start}-${previous}`);
+        }
+        start = line;
+        previous = line;
+    }
+    return ranges;
+}
+
+/**
+ * Summarizes one `coverage-final.json` entry
+ * @param file - Repository relative file path
+ * @param data - Istanbul file coverage object
+ * @returns Coverage summary for the file
+ */
+export function summarizeFileCoverage(file: string, data: any): FileCoverage {
+    const lineHits = new Map<number, number>();
+    for (const [id, location] of Object.entries<any>(data.statementMap || {})) {
+        const line = location.start.line;
+        lineHits.set(line, Math.max(lineHits.get(line) ?? 0, data.s?.[id] ?? 0));
+    }
+    const uncoveredLines = [...lineHits.entries()].filter(([, hits]) => hits === 0).map(([line]) => line);
+
+    const uncoveredBranchLines: number[] = [];
+    let branchTotal = 0;
+    let branchCovered = 0;
+    for (const [id, branch] of Object.entries<any>(data.branchMap || {})) {
+        const counts: number[] = data.b?.[id] || [];
+        branchTotal += counts.length;
+        branchCovered += counts.filter((count) => count > 0).length;
+        if (counts.some((count) => count === 0)) {
+            uncoveredBranchLines.push(branch.loc?.start?.line ?? branch.line);
+        }
+    }
+
+    const functionCounts = Object.values<number>(data.f || {});
+
+    return {
+        file,
+        lines: percentage(lineHits.size - uncoveredLines.length, lineHits.size),
+        branches: percentage(branchCovered, branchTotal),
+        functions: percentage(functionCounts.filter((count) => count > 0).length, functionCounts.length),
+        uncoveredLines: toLineRanges(uncoveredLines),
+        uncoveredBranches: toLineRanges(uncoveredBranchLines.filter((line) => line !== undefined)),
+    };
+}
+
+/**
+ * Reads a JSON file from the coverage directory if it exists
+ */
+function readCoverageFile(coverageDir: string, fileName: string): Record<string, any> | null {
+    const filePath = path.resolve(process.cwd(), coverageDir, fileName);
+    if (!fs.existsSync(filePath)) {
+        return null;
+    }
+    logger.info(`Reading coverage data: ${filePath}`);
+    return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+}
+
+/**
+ * Whether the coverage directory holds a `coverage-final.json` or `coverage-summary.json`
+ * @param coverageDir - Directory holding the nyc/Istanbul output
+ */
+export function hasCoverageData(coverageDir: string): boolean {
+    return Object.values(COVERAGE_FILES).some((fileName) =>
+        fs.existsSync(path.resolve(process.cwd(), coverageDir, fileName)),
+    );
+}
+
+/**
+ * Finds the report key belonging to a changed file.
+ * Istanbul and Stryker keys may be absolute paths, so the match is made on the path suffix.
+ * @param keys - File keys of a coverage or mutation report
+ * @param changedFile - Repository relative path of the changed file
+ * @returns Matching key, if any
+ */
+export function findFileKey(keys: string[], changedFile: string): string | undefined {
+    const normalized = changedFile.replace(/^\.?\//, '');
+    return keys.find((key) => {
+        const relative = path.relative(process.cwd(), key).split(path.sep).join('/');
+        return relative === normalized || key.endsWith('/' + normalized);
+    });
+}
+
+/**
+ * Lists the directories holding instrumented files, the roots the coverage report covers
+ * @param coverageDir - Directory holding the nyc/Istanbul output
+ * @returns Directories of the report's file keys, as written in the report; empty without coverage data
+ */
+export function loadCoverageRoots(coverageDir: string): string[] {
+    try {
+        const data =
+            readCoverageFile(coverageDir, COVERAGE_FILES.FINAL) ??
+            readCoverageFile(coverageDir, COVERAGE_FILES.SUMMARY);
+        const keys = Object.keys(data ?? {}).filter((key) => key !== 'total');
+        return [...new Set(keys.map((key) => path.dirname(key)))];
+    } catch (error) {
+        logger.error('Error in reading coverage roots', error);
+        return [];
+    }
+}
+
+/**
+ * Whether the coverage report could hold a file: the file sits in a directory holding instrumented files, or
+ * below one. Scripts outside those roots, such as `webpack.config.js` or `.mocharc.js`, are never instrumented.
+ * Absolute directories are matched on the path suffix, as in `findFileKey`.
+ * @param roots - Directories from `loadCoverageRoots`
+ * @param changedFile - Repository relative path of the changed file
+ * @returns True when the file is under a coverage root
+ */
+export function isInCoverageRoots(roots: string[], changedFile: string): boolean {
+    const dir = path.posix.dirname(changedFile.replace(/^\.?\//, ''));
+    const parts = dir === '.' ? [] : dir.split('/');
+    const ancestors = parts.map((_, index) => parts.slice(0, index + 1).join('/'));
+    return roots.some((root) => {
+        const relative = path.relative(process.cwd(), root).split(path.sep).join('/');
+        return relative === '' || ancestors.some((ancestor) => relative === ancestor || root.endsWith('/' + ancestor));
+    });
+}
+
+/**
+ * Loads Istanbul coverage for the files changed in the Pull Request.
+ * `coverage-final.json` is preferred because it carries the uncovered line ranges;
+ * `coverage-summary.json` only provides percentages.
+ * @param coverageDir - Directory holding the nyc/Istanbul output
+ * @param changedFiles - Repository relative paths of the changed files
+ * @returns Coverage per changed file, empty when no coverage data is present
+ */
+export function loadCoverage(coverageDir: string, changedFiles: string[]): CoverageReport {
+    const result: CoverageReport = {};
+    try {
+        const final = readCoverageFile(coverageDir, COVERAGE_FILES.FINAL);
+        const summary = final ? null : readCoverageFile(coverageDir, COVERAGE_FILES.SUMMARY);
+        const data = final || summary;
+        if (!data) {
+            logger.info(`No coverage data found in ${coverageDir}`);
+            return result;
+        }
+
+        const keys = Object.keys(data).filter((key) => key !== 'total');
+        for (const file of changedFiles) {
+            const key = findFileKey(keys, file);
+            if (!key) {
+                continue;
+            }
+            result[file] = final
+                ? summarizeFileCoverage(file, final[key])
+                : {
+                      file,
+                      lines: summary[key].lines?.pct ?? 0,
+                      branches: summary[key].branches?.pct ?? 0,
+                      functions: summary[key].functions?.pct ?? 0,
+                      uncoveredLines: [],
+                      uncoveredBranches: [],
+                  };
+        }
+    } catch (error) {
+        console.error('Error reading coverage data:', error);
+        logger.error('Error in reading coverage data', error);
+    }
+    return result;
+}
+
+/**
+ * Renders the coverage of the changed files as a Markdown table for the PR summary
+ * @param coverage - Coverage per changed file
+ * @returns Markdown table, or an empty string when there is no coverage
+ */
+export function getCoverageSummary(coverage: CoverageReport): string {
+    const entries = Object.values(coverage);
+    if (entries.length === 0) {
+        return '';
+    }
+    const rows = entries.map(
+        (c) =>
+            `| ${c.file} | ${c.lines}% | ${c.branches}% | ${c.functions}% | ` +
+            `${c.uncoveredLines.join(', ') || '-'} |`,
+    );
+    return [
+        '\n<b>Coverage of changed files:-</b>\n',
+        '| File | Lines | Branches | Functions | Uncovered lines |',
+        '|------|-------|----------|-----------|-----------------|',
+        ...rows,
+    ].join('\n');
+}
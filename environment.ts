@@ -43,6 +43,34 @@ interface EnvironmentVariables {
     JIRA_API_TOKEN_OUTPUT: string;
     REPORT_FILE_PATH: string;
     JIRA_SPACE_KEY_OUTPUT: string;
+    COVERAGE_DIR: string;
+    TEST_PATH_MAPPINGS: string;
+    TSCONFIG_PATH: string;
+    MUTATION_REPORT_PATH: string;
+    MODEL_CONCURRENCY: string;
+    PROMPT_TOKEN_BUDGET: string;
+    CACHE_DIR: string;
+    PROMPT_DIR: string;
+    LLM_PROVIDER: string;
+    LLM_BASE_URL: string;
+    LLM_API_KEY: string;
+    LLM_FIXTURE_DIR: string;
+    MIN_SCORE: string;
+    MAX_MISSING_CASES: string;
+    MIN_STATIC_SCORE: string;
+    MIN_LINE_COVERAGE: string;
+    CHECK_RUN_NAME: string;
+    JIRA_TICKET_SOURCES: string;
+    JIRA_ACCEPTANCE_CRITERIA_FIELDS: string;
+    JIRA_WRITE_BACK: string;
+    JIRA_SCORE_FIELD: string;
+    JIRA_LABELS_PASSED: string;
+    JIRA_LABELS_FAILED: string;
+    OUTPUT_DIR: string;
+    OUTPUT_FORMATS: string;
+    CONFLUENCE_PARENT_PAGE_ID: string;
+    CONFLUENCE_PAGE_HIERARCHY: string;
+    CONFLUENCE_LABELS: string;
 }
 
 /**
@@ -58,7 +86,7 @@ function validateRequiredEnvVar(name: string, value: string): void {
 }
 
 /**
- * Get and validate environment variables
+ * Get environment variables, applying defaults
  */
 function getEnvironmentVariables(): EnvironmentVariables {
     const envVars: EnvironmentVariables = {
@@ -67,8 +95,46 @@ function getEnvironmentVariables(): EnvironmentVariables {
         JIRA_API_TOKEN_OUTPUT: process.env.JIRA_API_TOKEN_OUTPUT ?? '',
         REPORT_FILE_PATH: process.env.REPORT_FILE_PATH ?? '',
         JIRA_SPACE_KEY_OUTPUT: process.env.JIRA_SPACE_KEY_OUTPUT ?? '',
+        COVERAGE_DIR: process.env.COVERAGE_DIR || 'coverage',
+        TEST_PATH_MAPPINGS: process.env.TEST_PATH_MAPPINGS ?? '',
+        TSCONFIG_PATH: process.env.TSCONFIG_PATH || 'tsconfig.json',
+        MUTATION_REPORT_PATH: process.env.MUTATION_REPORT_PATH || 'reports/mutation/mutation.json',
+        MODEL_CONCURRENCY: process.env.MODEL_CONCURRENCY || '3',
+        PROMPT_TOKEN_BUDGET: process.env.PROMPT_TOKEN_BUDGET ?? '',
+        CACHE_DIR: process.env.CACHE_DIR ?? '',
+        PROMPT_DIR: process.env.PROMPT_DIR || '.github/test-quality-prompts',
+        LLM_PROVIDER: process.env.LLM_PROVIDER || 'openrouter',
+        LLM_BASE_URL: process.env.LLM_BASE_URL ?? '',
+        LLM_API_KEY: process.env.LLM_API_KEY ?? '',
+        LLM_FIXTURE_DIR: process.env.LLM_FIXTURE_DIR ?? '',
+        MIN_SCORE: process.env.MIN_SCORE ?? '',
+        MAX_MISSING_CASES: process.env.MAX_MISSING_CASES ?? '',
+        MIN_STATIC_SCORE: process.env.MIN_STATIC_SCORE ?? '',
+        MIN_LINE_COVERAGE: process.env.MIN_LINE_COVERAGE ?? '',
+        CHECK_RUN_NAME: process.env.CHECK_RUN_NAME ?? '',
+        JIRA_TICKET_SOURCES: process.env.JIRA_TICKET_SOURCES || 'branch,title,body,commits',
+        JIRA_ACCEPTANCE_CRITERIA_FIELDS: process.env.JIRA_ACCEPTANCE_CRITERIA_FIELDS ?? '',
+        JIRA_WRITE_BACK: process.env.JIRA_WRITE_BACK || 'false',
+        JIRA_SCORE_FIELD: process.env.JIRA_SCORE_FIELD ?? '',
+        JIRA_LABELS_PASSED: process.env.JIRA_LABELS_PASSED ?? '',
+        JIRA_LABELS_FAILED: process.env.JIRA_LABELS_FAILED ?? '',
+        OUTPUT_DIR: process.env.OUTPUT_DIR ?? '',
+        OUTPUT_FORMATS: process.env.OUTPUT_FORMATS || 'markdown,html,json,sarif',
+        CONFLUENCE_PARENT_PAGE_ID: process.env.CONFLUENCE_PARENT_PAGE_ID ?? '',
+        CONFLUENCE_PAGE_HIERARCHY: process.env.CONFLUENCE_PAGE_HIERARCHY ?? '',
+        CONFLUENCE_LABELS: process.env.CONFLUENCE_LABELS ?? '',
     };
 
+    return envVars;
+}
+
+/**
+ * Validates the Confluence output configuration the GitHub Action publishes to.
+ * The local CLI does not publish, so it runs without it.
+ * @param envVars - Environment variables
+ * @throws Error listing the missing variables
+ */
+export function validateConfluenceOutput(envVars: EnvironmentVariables): void {
     // Validate all required variables
     const requiredVars: Array<keyof EnvironmentVariables> = [
         'JIRA_URL_OUTPUT',
@@ -93,12 +159,9 @@ function getEnvironmentVariables(): EnvironmentVariables {
             `\n\nPlease configure these variables in your GitHub repository settings.`
         );
     }
-
-    return envVars;
 }
 
 /**
- * Validated environment variables
- * Throws error if any required variable is missing
+ * Environment variables, validated by the GitHub Action entry point with `validateConfluenceOutput`
  */
 export const ENV_VARIABLES = getEnvironmentVariables();
\ No newline at end of file
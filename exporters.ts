@@ -0,0 +1,217 @@
+/**
+ * Report Exporters
+ * Writes the results of a run to files: the PR summary as Markdown, the Confluence page as a standalone
+ * HTML document, the structured results as JSON and the missing test cases as a SARIF log for code scanning
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { escapeHtml } from './formatting';
+import { getFileFindings } from './checkRun';
+import { getTicketFiles } from './jiraTickets';
+import { EXPORT_FORMATS } from './constants';
+import type { ExportFormat } from './constants';
+import type { AnalysisExport, FileFinding } from './types';
+
+/**
+ * Name of each report file
+ */
+const EXPORT_FILE_NAMES: Record<ExportFormat, string> = {
+    [EXPORT_FORMATS.MARKDOWN]: 'analysis.md',
+    [EXPORT_FORMATS.HTML]: 'analysis.html',
+    [EXPORT_FORMATS.JSON]: 'analysis.json',
+    [EXPORT_FORMATS.SARIF]: 'analysis.sarif',
+};
+
+/**
+ * SARIF rules, one per kind of finding
+ */
+const SARIF_RULES = [
+    {
+        id: 'missing-test-case',
+        list: 'missing',
+        level: 'warning',
+        name: 'MissingTestCase',
+        description: 'A behavior of the Jira story that no test of the file verifies',
+    },
+    {
+        id: 'partially-covered-test-case',
+        list: 'partiallyCovered',
+        level: 'note',
+        name: 'PartiallyCoveredTestCase',
+        description: 'A behavior of the Jira story that the tests of the file only verify in part',
+    },
+] as const;
+
+/**
+ * Parses the OUTPUT_FORMATS setting
+ * @param value - Comma-separated formats; empty for all of them
+ * @returns Formats to write
+ * @throws Error for unknown formats
+ */
+export function parseExportFormats(value: string): ExportFormat[] {
+    const all = Object.values(EXPORT_FORMATS) as ExportFormat[];
+    const formats = value
+        .split(',')
+        .map((f) => f.trim().toLowerCase())
+        .filter(Boolean);
+    const unknown = formats.filter((f) => !all.includes(f as ExportFormat));
+    if (unknown.length > 0) {
+        throw new Error(`Unknown OUTPUT_FORMATS ${unknown.join(', ')}, expected any of: ${all.join(', ')}`);
+    }
+    return formats.length > 0 ? [...new Set(formats as ExportFormat[])] : all;
+}
+
+/**
+ * Renders the PR summary as a Markdown file
+ */
+function renderMarkdown(report: AnalysisExport): string {
+    return `${report.summary}\n`;
+}
+
+/**
+ * Renders the Confluence page as an HTML document that opens without Confluence
+ */
+function renderHtml(report: AnalysisExport): string {
+    const title = `Test Quality Report: ${escapeHtml(report.repo)}`;
+    return [
+        '<!DOCTYPE html>',
+        '<html lang="en">',
+        '<head>',
+        '<meta charset="utf-8" />',
+        `<title>${title}</title>`,
+        '<style>',
+        'body { font-family: sans-serif; margin: 2rem; line-height: 1.5; }',
+        'table { border-collapse: collapse; margin: 1rem 0; }',
+        'th, td { border: 1px solid #ccc; padding: 0.3rem 0.6rem; text-align: left; vertical-align: top; }',
+        '</style>',
+        '</head>',
+        '<body>',
+        `<h1>${title}</h1>`,
+        report.page,
+        '</body>',
+        '</html>',
+        '',
+    ].join('\n');
+}
+
+/**
+ * Renders the structured results of every ticket as JSON
+ */
+function renderJson(report: AnalysisExport): string {
+    const json = {
+        date: report.date,
+        promptName: report.promptName,
+        repo: report.repo,
+        pullRequestUrl: report.pullRequestUrl,
+        changedFiles: report.changedFiles,
+        tickets: report.analyses.map(({ issue, ticket, run, metrics }) => ({
+            key: issue.key,
+            summary: issue.summary,
+            url: issue.url,
+            changedFiles: getTicketFiles(ticket, report.changedFiles),
+            metrics,
+            models: run.modelResponses,
+            consensus: run.consensus,
+            traceability: run.traceability,
+            staticAnalysis: run.smellReport,
+            report: run.reportPayload,
+        })),
+        qualityGate: report.gate,
+    };
+    return `${JSON.stringify(json, null, 2)}\n`;
+}
+
+/**
+ * Stable identifier of a finding, so code scanning tracks it across runs
+ */
+function getFingerprint(ticket: string, ruleId: string, file: string, { item }: FileFinding): string {
+    const text = `${item.case} ${item.detail ?? ''}`.toLowerCase().replace(/\s+/g, ' ').trim();
+    return crypto.createHash('sha256').update(`${ticket}\n${ruleId}\n${file}\n${text}`).digest('hex').slice(0, 32);
+}
+
+/**
+ * Renders the missing and partially covered test cases as a SARIF 2.1.0 log.
+ * Every case tied to a changed source file becomes a result on that file; cases the models did not tie
+ * to a file are left out, as code scanning needs a location.
+ */
+function renderSarif(report: AnalysisExport): string {
+    const results = report.analyses.flatMap(({ issue, ticket, run }) => {
+        const findings = getFileFindings(run, getTicketFiles(ticket, report.changedFiles));
+        return [...findings].flatMap(([file, lists]) =>
+            SARIF_RULES.flatMap((rule) =>
+                lists[rule.list].map((finding) => ({
+                    ruleId: rule.id,
+                    level: rule.level,
+                    message: {
+                        text:
+                            `${issue.key}: ${finding.item.case}` +
+                            (finding.item.detail ? `: ${finding.item.detail}` : '') +
+                            (finding.models.length > 1 ? ` (reported by ${finding.models.join(', ')})` : ''),
+                    },
+                    locations: [
+                        {
+                            physicalLocation: {
+                                artifactLocation: { uri: file, uriBaseId: '%SRCROOT%' },
+                                region: { startLine: 1 },
+                            },
+                        },
+                    ],
+                    partialFingerprints: { testQualityCase: getFingerprint(issue.key, rule.id, file, finding) },
+                    properties: { ticket: issue.key, models: finding.models },
+                })),
+            ),
+        );
+    });
+
+    const sarif = {
+        $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+        version: '2.1.0',
+        runs: [
+            {
+                tool: {
+                    driver: {
+                        name: 'Test Quality Checker',
+                        informationUri: 'https://github.com/sourcefuse/check-quality-of-unit-testcases',
+                        rules: SARIF_RULES.map((rule) => ({
+                            id: rule.id,
+                            name: rule.name,
+                            shortDescription: { text: rule.description },
+                            defaultConfiguration: { level: rule.level },
+                        })),
+                    },
+                },
+                invocations: [{ executionSuccessful: true, endTimeUtc: report.date }],
+                results,
+            },
+        ],
+    };
+    return `${JSON.stringify(sarif, null, 2)}\n`;
+}
+
+/**
+ * Renderer of each format
+ */
+const RENDERERS: Record<ExportFormat, (report: AnalysisExport) => string> = {
+    [EXPORT_FORMATS.MARKDOWN]: renderMarkdown,
+    [EXPORT_FORMATS.HTML]: renderHtml,
+    [EXPORT_FORMATS.JSON]: renderJson,
+    [EXPORT_FORMATS.SARIF]: renderSarif,
+};
+
+/**
+ * Writes the report files of the run, replacing those of an earlier run
+ * @param outputDir - Directory the files are written to; created when missing
+ * @param formats - Formats to write
+ * @param report - Results of the run
+ * @returns Paths of the written files
+ */
+export function writeReports(outputDir: string, formats: ExportFormat[], report: AnalysisExport): string[] {
+    fs.mkdirSync(outputDir, { recursive: true });
+    return formats.map((format) => {
+        const filePath = path.join(outputDir, EXPORT_FILE_NAMES[format]);
+        fs.writeFileSync(filePath, RENDERERS[format](report));
+        return filePath;
+    });
+}
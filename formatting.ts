@@ -0,0 +1,126 @@
+/**
+ * Formatting Helpers
+ * Shared helpers for the HTML and Markdown written to the PR comment and the Confluence page
+ */
+
+import type { CachedRun, CoverageCase, ModelResponse } from './types';
+
+/**
+ * Escapes text taken from reports or source code for HTML output
+ * @param text - Raw text
+ * @returns HTML safe text
+ */
+export function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Sections of the analysis, in display order, with their heading icon and label
+ */
+const ANALYSIS_SECTIONS = [
+    { key: 'fullyCovered', icon: '✅', label: 'Fully covered test cases' },
+    { key: 'partiallyCovered', icon: '⚠️', label: 'Partially covered test cases' },
+    { key: 'missing', icon: '❌', label: 'Missing test cases' },
+] as const;
+
+/**
+ * Formats a score on the 10 point scale
+ * @param score - Score out of 10
+ * @returns Score as `x/10`
+ */
+export function formatScore(score: number): string {
+    return `${score}/10`;
+}
+
+/**
+ * Describes one coverage case as plain text: the case, its tests and what is missing
+ */
+function describeCase(item: CoverageCase): string {
+    const tests = item.tests.length > 0 ? ` [${item.tests.join('; ')}]` : '';
+    const detail = item.detail ? ` (${item.detail})` : '';
+    return `${item.case}${tests}${detail}`;
+}
+
+/**
+ * Notes that an analysis was taken from the cache, linking the run that produced it
+ */
+function describeReuse(run: CachedRun): string {
+    const commit = run.commit ? ` of ${escapeHtml(run.commit.slice(0, 7))}` : '';
+    const source = run.runUrl ? `<a href="${escapeHtml(run.runUrl)}">an earlier run</a>` : 'an earlier run';
+    return `♻️ Reused from ${source}${commit} (${escapeHtml(run.createdAt)}): story, tests, prompt and model are unchanged`;
+}
+
+/**
+ * Renders a model's analysis as HTML for the Confluence page
+ * @param response - Validated model response
+ * @returns HTML block for the model, noting the request or validation errors when there is no valid analysis
+ */
+export function renderAnalysisHtml(response: ModelResponse): string {
+    const header = `<b>ResponseModel:-</b> ${escapeHtml(response.model)} <br /><br />`;
+    const result = response.result;
+    if (response.error) {
+        return header + `❌ The model request failed: ${escapeHtml(response.error)}`;
+    }
+    if (!result) {
+        return (
+            header +
+            `⚠️ The model did not return a valid analysis: ${escapeHtml(response.errors.join('; '))}<br />` +
+            `<pre>${escapeHtml(response.raw)}</pre>`
+        );
+    }
+
+    const list = (items: string[]): string =>
+        items.length > 0 ? `<ul>${items.map((i) => `<li>${escapeHtml(i)}</li>`).join('')}</ul>` : '<br />';
+    const sections = ANALYSIS_SECTIONS.map(
+        ({ key, icon, label }) =>
+            `• ${icon} <b>${label}</b> (${result[key].length})` + list(result[key].map(describeCase)),
+    );
+    sections.push(`• 💡 <b>Suggested improvements</b> (${result.suggestions.length})` + list(result.suggestions));
+
+    return (
+        header +
+        (response.reusedFrom ? `${describeReuse(response.reusedFrom)}<br /><br />` : '') +
+        `<b>[${escapeHtml(result.jiraId)}] ${escapeHtml(result.title)}</b><br /><br />` +
+        sections.join('') +
+        `<h2> 🧮 Final Score:</h2> <b>${formatScore(result.score)}</b>`
+    );
+}
+
+/**
+ * Renders a model's analysis as Markdown for the PR comment
+ * @param response - Validated model response
+ * @returns Markdown block for the model, noting the request or validation errors when there is no valid analysis
+ */
+export function renderAnalysisMarkdown(response: ModelResponse): string {
+    const result = response.result;
+    if (response.error) {
+        return `\n<b>Model:-</b> ${escapeHtml(response.model)}\n❌ Request failed: ${escapeHtml(response.error)}`;
+    }
+    if (!result) {
+        return (
+            `\n<b>Model:-</b> ${escapeHtml(response.model)}` +
+            `\n⚠️ No valid analysis: ${escapeHtml(response.errors.join('; '))}`
+        );
+    }
+
+    const list = (items: string[]): string => items.map((i) => `- ${escapeHtml(i)}`).join('\n');
+    const sections = ANALYSIS_SECTIONS.filter(({ key }) => result[key].length > 0).map(
+        ({ key, icon, label }) =>
+            `**${icon} ${label} (${result[key].length})**\n\n${list(result[key].map(describeCase))}`,
+    );
+    if (result.suggestions.length > 0) {
+        sections.push(`**💡 Suggested improvements (${result.suggestions.length})**\n\n${list(result.suggestions)}`);
+    }
+
+    let markdown =
+        `\n<b>Model:-</b> ${escapeHtml(response.model)}` +
+        `\n<b>Summary:-</b> ${escapeHtml(result.summary)}` +
+        `\n<b>Score:-</b> <b>${formatScore(result.score)}</b>`;
+    if (response.reusedFrom) {
+        markdown += `\n${describeReuse(response.reusedFrom)}`;
+    }
+    if (sections.length > 0) {
+        markdown += `\n<details><summary>Coverage details</summary>\n\n${sections.join('\n\n')}\n\n</details>`;
+    }
+    return markdown;
+}
@@ -0,0 +1,40 @@
+/**
+ * GitHub Context
+ * Workflow run details and the API client shared by the GitHub integrations
+ */
+
+import { Octokit } from 'octokit';
+import { ENV_VARIABLES as GlobalENV } from 'OpenRouterAICore/environment';
+import type { CachedRun } from './types';
+
+/**
+ * Describes the current workflow run from the variables GitHub Actions sets
+ * @returns Time, analysed commit (the PR head when known) and link to the run
+ */
+export function getCurrentRun(): CachedRun {
+    const { GITHUB_SERVER_URL, GITHUB_REPOSITORY, GITHUB_RUN_ID, GITHUB_HEAD_SHA, GITHUB_SHA } = process.env;
+    return {
+        createdAt: new Date().toISOString(),
+        commit: GITHUB_HEAD_SHA || GITHUB_SHA || '',
+        runUrl:
+            GITHUB_SERVER_URL && GITHUB_REPOSITORY && GITHUB_RUN_ID
+                ? `${GITHUB_SERVER_URL}/${GITHUB_REPOSITORY}/actions/runs/${GITHUB_RUN_ID}`
+                : '',
+    };
+}
+
+/**
+ * Creates an API client for the repository of the workflow.
+ * Rate limits are handled by withRetry, like the other GitHub calls, so Octokit's own retries are off.
+ * GITHUB_API_URL points at GitHub Enterprise Server when the workflow runs there.
+ * @returns Client and the owner/repo parameters of the repository
+ */
+export function createGitHubClient(): { octokit: Octokit; repository: { owner: string; repo: string } } {
+    const octokit = new Octokit({
+        auth: GlobalENV.GITHUB_TOKEN,
+        baseUrl: process.env.GITHUB_API_URL || 'https://api.github.com',
+        retry: { enabled: false },
+        throttle: { enabled: false },
+    });
+    return { octokit, repository: { owner: GlobalENV.GITHUB_OWNER, repo: GlobalENV.GITHUB_REPO } };
+}
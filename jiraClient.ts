@@ -0,0 +1,187 @@
+/**
+ * Jira Client
+ * Fetches Jira issues through the REST API and turns them into the story text sent to the models
+ */
+
+import { ENV_VARIABLES as GlobalENV } from 'OpenRouterAICore/environment';
+import type { AtlassianSite, JiraIssue } from './types';
+
+/**
+ * Fields always fetched, whatever JIRA_FETCH_FIELDS lists
+ */
+const REQUIRED_FIELDS = ['summary', 'description'];
+
+/**
+ * Atlassian Document Format nodes that end a line of text
+ */
+const ADF_BLOCK_NODES = new Set(['paragraph', 'heading', 'listItem', 'blockquote', 'codeBlock', 'rule', 'tableRow']);
+
+/**
+ * Converts an Atlassian Document Format node, as returned by the v3 API for rich text fields, to plain text
+ * @param node - ADF document or node
+ * @param bullet - List marker of the enclosing list item
+ * @returns Plain text, one line per block and `- ` / `1. ` markers for list items
+ */
+export function adfToText(node: any, bullet = ''): string {
+    if (!node || typeof node !== 'object') {
+        return '';
+    }
+    if (node.type === 'text') {
+        return node.text ?? '';
+    }
+    if (node.type === 'hardBreak') {
+        return '\n';
+    }
+    if (node.type === 'mention' || node.type === 'emoji' || node.type === 'status') {
+        return node.attrs?.text ?? '';
+    }
+    if (node.type === 'inlineCard') {
+        return node.attrs?.url ?? '';
+    }
+
+    const children: any[] = Array.isArray(node.content) ? node.content : [];
+    let text: string;
+    if (node.type === 'bulletList' || node.type === 'orderedList') {
+        text = children
+            .map((child, i) =>
+                adfToText(child, node.type === 'orderedList' ? `${(node.attrs?.order ?? 1) + i}. ` : '- '),
+            )
+            .join('');
+    } else if (node.type === 'tableCell' || node.type === 'tableHeader') {
+        text = children.map((child) => adfToText(child).trim()).join(' ') + ' | ';
+    } else {
+        text = children.map((child) => adfToText(child)).join('');
+    }
+
+    if (node.type === 'listItem') {
+        // Nested lists are indented below their item
+        const [first, ...rest] = text.replace(/\n+$/, '').split('\n');
+        return `${bullet}${first}\n${rest.map((line) => `  ${line}\n`).join('')}`;
+    }
+    if (node.type === 'heading') {
+        return `${'#'.repeat(node.attrs?.level ?? 1)} ${text}\n`;
+    }
+    return ADF_BLOCK_NODES.has(node.type) ? `${text.replace(/\n+$/, '')}\n` : text;
+}
+
+/**
+ * Converts a Jira field value of any type to plain text
+ * @param value - Field value: text, ADF document, option, user, number or a list of these
+ * @returns Plain text, empty for unset fields
+ */
+export function fieldToText(value: any): string {
+    if (value === null || value === undefined) {
+        return '';
+    }
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+        return String(value);
+    }
+    if (Array.isArray(value)) {
+        return value.map(fieldToText).filter(Boolean).join(', ');
+    }
+    if (value.type === 'doc') {
+        return adfToText(value).trim();
+    }
+    return String(value.value ?? value.name ?? value.displayName ?? value.key ?? '');
+}
+
+/**
+ * Sends an authenticated request to the REST API of an Atlassian Cloud site (Jira or Confluence).
+ * HTTP errors carry their status and headers so the retry layer can honour rate limits.
+ * @param site - Site URL and credentials
+ * @param method - HTTP method
+ * @param apiPath - Path below the site URL, e.g. `/rest/api/3/issue/TEL-1`
+ * @param body - JSON body, if any
+ * @returns Parsed JSON response, null for empty responses
+ */
+export async function atlassianRequest(
+    site: AtlassianSite,
+    method: string,
+    apiPath: string,
+    body?: unknown,
+): Promise<any> {
+    const auth = Buffer.from(`${site.email}:${site.apiToken}`).toString('base64');
+    const response = await fetch(`${site.url.replace(/\/+$/, '')}${apiPath}`, {
+        method,
+        headers: {
+            Authorization: `Basic ${auth}`,
+            Accept: 'application/json',
+            ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (!response.ok) {
+        const text = await response.text();
+        throw Object.assign(new Error(`${response.status} ${response.statusText}: ${text.slice(0, 500)}`), {
+            status: response.status,
+            headers: response.headers,
+        });
+    }
+    const text = await response.text();
+    return text ? JSON.parse(text) : null;
+}
+
+/**
+ * Sends an authenticated request to the Jira REST API
+ * @param method - HTTP method
+ * @param apiPath - Path below the Jira URL, e.g. `/rest/api/3/issue/TEL-1`
+ * @param body - JSON body, if any
+ * @returns Parsed JSON response, null for empty responses
+ */
+export async function jiraRequest(method: string, apiPath: string, body?: unknown): Promise<any> {
+    if (!GlobalENV.JIRA_URL) {
+        throw new Error('JIRA_URL is not set');
+    }
+    return atlassianRequest(
+        { url: GlobalENV.JIRA_URL, email: GlobalENV.JIRA_EMAIL, apiToken: GlobalENV.JIRA_API_TOKEN },
+        method,
+        apiPath,
+        body,
+    );
+}
+
+/**
+ * Fetches a Jira issue with the fields listed in JIRA_FETCH_FIELDS
+ * @param key - Issue key, e.g. `TEL-123`
+ * @param extraFields - Further field IDs to fetch, e.g. the acceptance criteria fields
+ * @returns Issue with its summary, plain text description and raw fields
+ * @throws Error with the HTTP status when the request fails
+ */
+export async function fetchJiraIssue(key: string, extraFields: string[] = []): Promise<JiraIssue> {
+    const fields = [
+        ...new Set([
+            ...REQUIRED_FIELDS,
+            ...extraFields,
+            ...(GlobalENV.JIRA_FETCH_FIELDS || '')
+                .split(',')
+                .map((f: string) => f.trim())
+                .filter(Boolean),
+        ]),
+    ];
+    const data = await jiraRequest(
+        'GET',
+        `/rest/api/3/issue/${encodeURIComponent(key)}?fields=${encodeURIComponent(fields.join(','))}&expand=names`,
+    );
+    return {
+        key: data.key ?? key,
+        summary: fieldToText(data.fields?.summary),
+        description: fieldToText(data.fields?.description),
+        fields: data.fields ?? {},
+        fieldNames: data.names ?? {},
+        url: `${(GlobalENV.JIRA_URL || '').replace(/\/+$/, '')}/browse/${data.key ?? key}`,
+    };
+}
+
+/**
+ * Builds the story text sent to the models: key and summary, the description and every other fetched field
+ * @param issue - Jira issue
+ * @returns Story text
+ */
+export function formatJiraStory(issue: JiraIssue): string {
+    const extraFields = Object.entries(issue.fields)
+        .filter(([id]) => !REQUIRED_FIELDS.includes(id))
+        .map(([id, value]) => [issue.fieldNames[id] ?? id, fieldToText(value)])
+        .filter(([, text]) => text)
+        .map(([name, text]) => `${name}: ${text}`);
+    return [`[${issue.key}] ${issue.summary}`, issue.description, ...extraFields].filter(Boolean).join('\n\n');
+}
@@ -0,0 +1,169 @@
+/**
+ * Jira Ticket Discovery
+ * Finds the Jira tickets a PR covers in its branch name, title, description and commit messages
+ */
+
+import { ENV_VARIABLES as GlobalENV } from 'OpenRouterAICore/environment';
+import { logger } from 'OpenRouterAICore/pino';
+import { createGitHubClient } from './githubContext';
+import { withRetry } from './retry';
+import { API_SOURCE, TICKET_SOURCES, type TicketSource } from './constants';
+import type { JiraTicket } from './types';
+
+/**
+ * Maximum number of tickets analysed per PR; every ticket costs a full analysis
+ */
+const MAX_TICKETS = 10;
+
+/**
+ * Parses the JIRA_TICKET_SOURCES setting
+ * @param value - Comma-separated sources; empty for all of them
+ * @returns Sources to search
+ * @throws Error for unknown sources
+ */
+export function parseTicketSources(value: string): TicketSource[] {
+    const all = Object.values(TICKET_SOURCES) as TicketSource[];
+    const sources = value
+        .split(',')
+        .map((s) => s.trim().toLowerCase())
+        .filter(Boolean);
+    const unknown = sources.filter((s) => !all.includes(s as TicketSource));
+    if (unknown.length > 0) {
+        throw new Error(`Unknown JIRA_TICKET_SOURCES ${unknown.join(', ')}, expected any of: ${all.join(', ')}`);
+    }
+    return sources.length > 0 ? (sources as TicketSource[]) : all;
+}
+
+/**
+ * Finds Jira issue keys in a text
+ * @param text - Branch name, PR title, description or commit message
+ * @param projectKeys - Comma-separated project keys; empty to accept any upper case key
+ * @returns Upper case issue keys in order of appearance, without duplicates
+ */
+export function findTicketKeys(text: string, projectKeys: string): string[] {
+    const keys = projectKeys
+        .split(',')
+        .map((k) => k.trim().replace(/[^A-Za-z0-9_]/g, ''))
+        .filter(Boolean);
+    // Keys may be followed by `_` or letters in branch names (TEL-12_login), so no word boundaries
+    const pattern =
+        keys.length > 0
+            ? new RegExp(`(?<![A-Za-z0-9])(${keys.join('|')})-(\\d+)(?!\\d)`, 'gi')
+            : /(?<![A-Za-z0-9])([A-Z][A-Z0-9_]+)-(\d+)(?!\d)/g;
+    const found = [...(text || '').matchAll(pattern)].map((m) => `${m[1].toUpperCase()}-${m[2]}`);
+    return [...new Set(found)];
+}
+
+/**
+ * Files a ticket is analysed against, the same for the analysis, the annotations and the report files
+ * @param ticket - Discovered ticket
+ * @param changedFiles - Files changed by the PR
+ * @returns Files of the ticket's commits, or every changed file when the ticket covers the whole PR
+ *          or its commits touched none of the changed files
+ */
+export function getTicketFiles(ticket: JiraTicket, changedFiles: string[]): string[] {
+    return ticket.files?.length ? ticket.files : changedFiles;
+}
+
+/**
+ * Discovers the tickets of the PR. Tickets named in the branch, title or description cover every changed
+ * file; tickets only named in commit messages cover the files of those commits.
+ * A failing GitHub request is logged and the discovery continues with the sources read so far; a ticket whose
+ * commits cannot be read is checked against every changed file.
+ * @param sources - Places to search
+ * @param changedFiles - Files changed by the PR, used to limit the files of commits
+ * @returns Tickets in discovery order: branch, title, description, commits
+ */
+export async function discoverJiraTickets(sources: TicketSource[], changedFiles: string[]): Promise<JiraTicket[]> {
+    const projectKeys = GlobalENV.JIRA_PROJECT_KEY || '';
+    const tickets = new Map<string, JiraTicket>();
+    const commitsByTicket = new Map<string, string[]>();
+    const add = (text: string, source: TicketSource, commit?: string): void => {
+        for (const key of findTicketKeys(text, projectKeys)) {
+            if (!tickets.has(key)) {
+                tickets.set(key, { key, sources: [], files: null });
+            }
+            const ticket = tickets.get(key);
+            if (!ticket.sources.includes(source)) {
+                ticket.sources.push(source);
+            }
+            if (commit) {
+                commitsByTicket.set(key, [...(commitsByTicket.get(key) ?? []), commit]);
+            }
+        }
+    };
+
+    if (sources.includes(TICKET_SOURCES.BRANCH)) {
+        add(process.env.JIRA_TICKET_ID || process.env.GITHUB_HEAD_REF || '', TICKET_SOURCES.BRANCH);
+    }
+
+    const pullNumber = Number(GlobalENV.GITHUB_ISSUE_NUMBER);
+    const prSources = sources.filter((s) => s !== TICKET_SOURCES.BRANCH);
+    if (Number.isInteger(pullNumber) && prSources.length > 0) {
+        const { octokit, repository } = createGitHubClient();
+        try {
+            if (sources.includes(TICKET_SOURCES.TITLE) || sources.includes(TICKET_SOURCES.BODY)) {
+                const { data: pull }: { data: { title: string; body?: string | null } } = await withRetry(
+                    API_SOURCE.GITHUB,
+                    'Fetch Pull Request',
+                    () => octokit.rest.pulls.get({ ...repository, pull_number: pullNumber }),
+                );
+                if (sources.includes(TICKET_SOURCES.TITLE)) {
+                    add(pull.title, TICKET_SOURCES.TITLE);
+                }
+                if (sources.includes(TICKET_SOURCES.BODY)) {
+                    add(pull.body ?? '', TICKET_SOURCES.BODY);
+                }
+            }
+            if (sources.includes(TICKET_SOURCES.COMMITS)) {
+                const commits: Array<{ sha: string; commit: { message: string } }> = await withRetry(
+                    API_SOURCE.GITHUB,
+                    'Fetch Pull Request commits',
+                    () =>
+                        octokit.paginate(octokit.rest.pulls.listCommits, {
+                            ...repository,
+                            pull_number: pullNumber,
+                            per_page: 100,
+                        }),
+                );
+                for (const commit of commits) {
+                    add(commit.commit.message, TICKET_SOURCES.COMMITS, commit.sha);
+                }
+            }
+        } catch (e: any) {
+            console.error(`❌ Error reading the Pull Request for Jira tickets: ${e?.message || String(e)}`);
+            logger.error('Error discovering Jira tickets', e);
+        }
+
+        // Tickets named only in commit messages cover the files of those commits
+        for (const ticket of tickets.values()) {
+            if (ticket.sources.some((s) => s !== TICKET_SOURCES.COMMITS)) {
+                continue;
+            }
+            try {
+                const files = new Set<string>();
+                for (const sha of commitsByTicket.get(ticket.key) ?? []) {
+                    const { data: commit }: { data: { files?: Array<{ filename: string }> } } = await withRetry(
+                        API_SOURCE.GITHUB,
+                        `Fetch files of commit ${sha.slice(0, 7)}`,
+                        () => octokit.rest.repos.getCommit({ ...repository, ref: sha }),
+                    );
+                    (commit.files ?? []).forEach((f) => files.add(f.filename));
+                }
+                ticket.files = [...files].filter((f) => changedFiles.length === 0 || changedFiles.includes(f));
+            } catch (e: any) {
+                console.error(
+                    `❌ Error reading the commits of ${ticket.key}, checking it against every changed file: ` +
+                        (e?.message || String(e)),
+                );
+                logger.error(`Error fetching the commit files of ${ticket.key}`, e);
+            }
+        }
+    }
+
+    const discovered = [...tickets.values()];
+    if (discovered.length > MAX_TICKETS) {
+        console.log(`⚠️  ${discovered.length} Jira tickets found, analysing the first ${MAX_TICKETS}`);
+    }
+    return discovered.slice(0, MAX_TICKETS);
+}
@@ -0,0 +1,158 @@
+/**
+ * Jira Write-Back
+ * Reports the results on the analysed Jira issues: a comment with the score and links that later runs of the
+ * same PR update, a numeric score field and labels for the quality gate outcome
+ */
+
+import { jiraRequest } from './jiraClient';
+import { withRetry } from './retry';
+import { formatScore } from './formatting';
+import { API_SOURCE } from './constants';
+import type { EnvironmentConfig, JiraWriteBack } from './types';
+
+/**
+ * Comment property marking the action's comment, with the PR it reports on as its value
+ */
+const COMMENT_PROPERTY = 'test-quality-checker';
+
+/**
+ * Comments fetched per request while looking for the action's comment
+ */
+const COMMENTS_PAGE_SIZE = 100;
+
+/**
+ * Parses a comma-separated list of labels; Jira labels cannot contain spaces
+ */
+function parseLabels(value: string): string[] {
+    return (value || '')
+        .split(',')
+        .map((label) => label.trim().replace(/\s+/g, '-'))
+        .filter(Boolean);
+}
+
+/**
+ * ADF text node, linked when a URL is given
+ */
+function textNode(text: string, url?: string, strong = false): Record<string, unknown> {
+    const marks = [...(strong ? [{ type: 'strong' }] : []), ...(url ? [{ type: 'link', attrs: { href: url } }] : [])];
+    return marks.length > 0 ? { type: 'text', text, marks } : { type: 'text', text };
+}
+
+/**
+ * Builds the comment posted on the issue, in Atlassian Document Format
+ * @param result - Results of the issue's analysis
+ * @returns ADF document
+ */
+export function renderJiraComment(result: JiraWriteBack): Record<string, unknown> {
+    const facts = [
+        result.score === null ? 'no valid analysis' : `score ${formatScore(result.score)}`,
+        ...(result.missingCount === null ? [] : [`${result.missingCount} missing test case(s)`]),
+        ...(result.gatePassed === null ? [] : [`quality gate ${result.gatePassed ? 'passed' : 'failed'}`]),
+    ];
+    const links = [
+        textNode('Pull request: '),
+        textNode(result.pullRequest, result.pullRequestUrl),
+        ...(result.confluenceUrl ? [textNode(' · Report: '), textNode('Confluence page', result.confluenceUrl)] : []),
+    ];
+    const run = [
+        textNode(`Updated ${result.run.createdAt}`),
+        ...(result.run.commit ? [textNode(` for commit ${result.run.commit.slice(0, 7)}`)] : []),
+        ...(result.run.runUrl ? [textNode(' · '), textNode('workflow run', result.run.runUrl)] : []),
+    ];
+    return {
+        type: 'doc',
+        version: 1,
+        content: [
+            {
+                type: 'paragraph',
+                content: [textNode('🧪 Test quality check', undefined, true), textNode(`: ${facts.join(', ')}`)],
+            },
+            { type: 'paragraph', content: links },
+            { type: 'paragraph', content: run },
+        ],
+    };
+}
+
+/**
+ * Finds the comment an earlier run of the same PR posted on the issue
+ * @param key - Issue key
+ * @param pullRequest - PR the comment reports on, `owner/repo#number`
+ * @returns Comment ID, or null when there is none
+ */
+async function findResultComment(key: string, pullRequest: string): Promise<string | null> {
+    for (let startAt = 0; ; startAt += COMMENTS_PAGE_SIZE) {
+        const page = await withRetry(API_SOURCE.JIRA, `Fetch comments of ${key}`, () =>
+            jiraRequest(
+                'GET',
+                `/rest/api/3/issue/${encodeURIComponent(key)}/comment` +
+                    `?startAt=${startAt}&maxResults=${COMMENTS_PAGE_SIZE}&expand=properties`,
+            ),
+        );
+        const comments: any[] = page?.comments ?? [];
+        const comment = comments.find((c) =>
+            (c.properties ?? []).some((p: any) => p.key === COMMENT_PROPERTY && p.value?.pullRequest === pullRequest),
+        );
+        if (comment) {
+            return String(comment.id);
+        }
+        if (comments.length === 0 || startAt + comments.length >= (page?.total ?? 0)) {
+            return null;
+        }
+    }
+}
+
+/**
+ * Writes the results to the issue: creates or updates the action's comment for the PR, then sets the score
+ * field and swaps the passed and failed labels when they are configured.
+ * Labels are only changed when quality gate thresholds are configured.
+ * @param result - Results of the issue's analysis
+ * @param settings - JIRA_SCORE_FIELD, JIRA_LABELS_PASSED and JIRA_LABELS_FAILED
+ * @throws The Jira error once the retries are exhausted
+ */
+export async function writeBackToJira(result: JiraWriteBack, settings: EnvironmentConfig): Promise<void> {
+    const issuePath = `/rest/api/3/issue/${encodeURIComponent(result.key)}`;
+    const body = renderJiraComment(result);
+
+    const commentId = await findResultComment(result.key, result.pullRequest);
+    if (commentId) {
+        await withRetry(API_SOURCE.JIRA, `Update comment on ${result.key}`, () =>
+            jiraRequest('PUT', `${issuePath}/comment/${commentId}`, { body }),
+        );
+    } else {
+        await withRetry(
+            API_SOURCE.JIRA,
+            `Comment on ${result.key}`,
+            () =>
+                jiraRequest('POST', `${issuePath}/comment`, {
+                    body,
+                    properties: [{ key: COMMENT_PROPERTY, value: { pullRequest: result.pullRequest } }],
+                }),
+            false,
+        );
+    }
+
+    const fields: Record<string, number> = {};
+    if (settings.JIRA_SCORE_FIELD && result.score !== null) {
+        fields[settings.JIRA_SCORE_FIELD] = result.score;
+    }
+    const passedLabels = parseLabels(settings.JIRA_LABELS_PASSED);
+    const failedLabels = parseLabels(settings.JIRA_LABELS_FAILED);
+    const [add, remove] = result.gatePassed ? [passedLabels, failedLabels] : [failedLabels, passedLabels];
+    // Without quality gate thresholds there is no outcome to label
+    const labels =
+        result.gatePassed === null
+            ? []
+            : [
+                  ...add.map((label) => ({ add: label })),
+                  ...remove.filter((label) => !add.includes(label)).map((label) => ({ remove: label })),
+              ];
+    if (Object.keys(fields).length === 0 && labels.length === 0) {
+        return;
+    }
+    await withRetry(API_SOURCE.JIRA, `Update ${result.key}`, () =>
+        jiraRequest('PUT', issuePath, {
+            ...(Object.keys(fields).length > 0 ? { fields } : {}),
+            ...(labels.length > 0 ? { update: { labels } } : {}),
+        }),
+    );
+}
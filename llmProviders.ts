@@ -0,0 +1,188 @@
+/**
+ * LLM Providers
+ * Backends the analysis can run against: OpenRouter through the vector store, any OpenAI-compatible
+ * endpoint (llama.cpp, vLLM, Ollama, ...) and a fixture provider replaying recorded responses
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { logger } from 'OpenRouterAICore/pino';
+import { API_SOURCE, LLM_PROVIDERS } from './constants';
+import type { LlmFixture, LlmProvider, LlmProviderSettings } from './types';
+
+/**
+ * Time a single OpenAI-compatible request may take; local models can be slow on large prompts
+ */
+const REQUEST_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Uses the OpenRouter models through the vector store, which adds the project document to the prompt
+ * @param store - Vector store instance, with the project document indexed
+ * @param indexName - Index holding the project document
+ * @returns OpenRouter provider
+ */
+export function createOpenRouterProvider(store: any, indexName: string): LlmProvider {
+    return {
+        name: LLM_PROVIDERS.OPENROUTER,
+        source: API_SOURCE.OPENROUTER,
+        generate: (model, prompt) => store.generate(model, indexName, prompt),
+        repair: (model, output, prompt) => store.makeCallToModel(model, output, prompt),
+    };
+}
+
+/**
+ * Sends chat completion requests to an OpenAI-compatible API.
+ * HTTP errors carry their status and headers so the retry layer can honour rate limits.
+ * @param baseUrl - API base URL, e.g. `http://localhost:8080/v1`
+ * @param apiKey - Bearer token; empty for servers without authentication
+ * @returns OpenAI-compatible provider
+ */
+export function createOpenAiCompatibleProvider(baseUrl: string, apiKey: string): LlmProvider {
+    if (!baseUrl) {
+        throw new Error(`LLM_BASE_URL is required for the ${LLM_PROVIDERS.OPENAI_COMPATIBLE} provider`);
+    }
+    const url = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+    const complete = async (model: string, messages: Array<{ role: string; content: string }>): Promise<string> => {
+        const response = await fetch(url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+            },
+            body: JSON.stringify({ model, messages, temperature: 0 }),
+            signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+        if (!response.ok) {
+            const body = await response.text();
+            throw Object.assign(new Error(`${response.status} ${response.statusText}: ${body.slice(0, 500)}`), {
+                status: response.status,
+                headers: response.headers,
+            });
+        }
+        const data: any = await response.json();
+        const content = data?.choices?.[0]?.message?.content;
+        if (typeof content !== 'string') {
+            throw new Error(`The response of ${model} has no message content`);
+        }
+        return content;
+    };
+
+    return {
+        name: LLM_PROVIDERS.OPENAI_COMPATIBLE,
+        source: API_SOURCE.LLM,
+        generate: (model, prompt) => complete(model, [{ role: 'user', content: prompt }]),
+        repair: (model, output, prompt) =>
+            complete(model, [
+                { role: 'assistant', content: output },
+                { role: 'user', content: prompt },
+            ]),
+    };
+}
+
+/**
+ * Identifies a model call, so the same call always maps to the same fixture file
+ * @param call - Kind, model, prompt and, for repairs, the corrected output
+ * @returns Hex encoded SHA-256 hash
+ */
+export function getFixtureKey(call: Omit<LlmFixture, 'response'>): string {
+    return crypto
+        .createHash('sha256')
+        .update(JSON.stringify([call.kind, call.model, call.prompt, call.output ?? null]))
+        .digest('hex');
+}
+
+/**
+ * Replays responses recorded in the fixture directory, without any network access
+ * @param fixtureDir - Directory of the recorded calls
+ * @returns Fixture provider
+ * @throws Error from `generate`/`repair` when a call was never recorded
+ */
+export function createFixtureProvider(fixtureDir: string): LlmProvider {
+    if (!fixtureDir) {
+        throw new Error(`LLM_FIXTURE_DIR is required for the ${LLM_PROVIDERS.FIXTURE} provider`);
+    }
+
+    const replay = async (call: Omit<LlmFixture, 'response'>): Promise<string> => {
+        const fixturePath = path.join(fixtureDir, `${getFixtureKey(call)}.json`);
+        if (!fs.existsSync(fixturePath)) {
+            throw new Error(
+                `No recorded ${call.kind} response of ${call.model} (${fixturePath}). ` +
+                    `Record it by running once with a live provider and LLM_FIXTURE_DIR set.`,
+            );
+        }
+        const fixture: LlmFixture = JSON.parse(fs.readFileSync(fixturePath, 'utf8'));
+        return fixture.response;
+    };
+
+    return {
+        name: LLM_PROVIDERS.FIXTURE,
+        source: API_SOURCE.LLM,
+        generate: (model, prompt) => replay({ kind: 'generate', model, prompt }),
+        repair: (model, output, prompt) => replay({ kind: 'repair', model, prompt, output }),
+    };
+}
+
+/**
+ * Records every response of a provider into the fixture directory for later replay
+ * @param provider - Live provider
+ * @param fixtureDir - Directory the calls are written to
+ * @returns Provider with the same behaviour that also records its calls
+ */
+export function withFixtureRecording(provider: LlmProvider, fixtureDir: string): LlmProvider {
+    const record = (call: Omit<LlmFixture, 'response'>, response: string): string => {
+        try {
+            fs.mkdirSync(fixtureDir, { recursive: true });
+            const fixture: LlmFixture = { ...call, response };
+            fs.writeFileSync(path.join(fixtureDir, `${getFixtureKey(call)}.json`), JSON.stringify(fixture, null, 2));
+        } catch (error) {
+            console.error(`Error recording the response of ${call.model}:`, error);
+            logger.error('Error recording LLM fixture', error);
+        }
+        return response;
+    };
+
+    return {
+        ...provider,
+        generate: async (model, prompt) =>
+            record({ kind: 'generate', model, prompt }, await provider.generate(model, prompt)),
+        repair: async (model, output, prompt) =>
+            record({ kind: 'repair', model, prompt, output }, await provider.repair(model, output, prompt)),
+    };
+}
+
+/**
+ * Creates the configured provider. The vector store is only initialized for OpenRouter, so the other
+ * providers run without the project document, Qdrant and Presidio.
+ * @param settings - Provider settings
+ * @param getOpenRouterProvider - Initializes the vector store and returns the OpenRouter provider
+ * @returns Provider, recording its responses when a fixture directory is set for a live provider
+ * @throws Error for an unknown provider or missing settings
+ */
+export async function createLlmProvider(
+    settings: LlmProviderSettings,
+    getOpenRouterProvider: () => Promise<LlmProvider>,
+): Promise<LlmProvider> {
+    let provider: LlmProvider;
+    switch (settings.provider) {
+        case LLM_PROVIDERS.OPENROUTER:
+            provider = await getOpenRouterProvider();
+            break;
+        case LLM_PROVIDERS.OPENAI_COMPATIBLE:
+            provider = createOpenAiCompatibleProvider(settings.baseUrl, settings.apiKey);
+            break;
+        case LLM_PROVIDERS.FIXTURE:
+            return createFixtureProvider(settings.fixtureDir);
+        default:
+            throw new Error(
+                `Unknown LLM_PROVIDER "${settings.provider}", expected one of: ${Object.values(LLM_PROVIDERS).join(', ')}`,
+            );
+    }
+
+    if (settings.fixtureDir) {
+        console.log(`📼 Recording ${provider.name} responses to ${settings.fixtureDir}`);
+        return withFixtureRecording(provider, settings.fixtureDir);
+    }
+    return provider;
+}
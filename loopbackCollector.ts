@@ -0,0 +1,353 @@
+/**
+ * LoopBack Test Report Collector
+ * Switches the Mocha config of every workspace package to the JSON reporter and merges the results into one unit report
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { spawn } from 'child_process';
+import fg from 'fast-glob';
+import type { TestCaseResult, TestReport } from './types';
+
+/**
+ * Files read and written by the collector, relative to a package directory
+ */
+const COLLECTOR_FILES = {
+    MOCHA_CONFIG: '.mocharc.json',
+    MOCHA_BACKUP: '.mocharc.json.ut-backup',
+    MOCHA_RESULTS: 'test-results.json',
+    LERNA: 'lerna.json',
+    PACKAGE: 'package.json',
+    PNPM_WORKSPACE: 'pnpm-workspace.yaml',
+} as const;
+
+/**
+ * Unit report written when `REPORT_FILE_PATH` is not set
+ */
+const DEFAULT_OUTPUT_FILE = 'coverage/ut-results.json';
+
+/**
+ * Packages Lerna uses when `lerna.json` declares none
+ */
+const LERNA_DEFAULT_PACKAGES = ['packages/*'];
+
+/**
+ * Collector actions accepted on the command line
+ */
+const ACTIONS = ['update-mocha', 'collect-report', 'restore-mocha', 'run'] as const;
+
+type CollectorAction = (typeof ACTIONS)[number];
+
+/**
+ * Test entry of Mocha's JSON reporter output
+ */
+interface MochaTest {
+    title: string;
+    fullTitle: string;
+    file?: string;
+    duration?: number;
+    err?: { message?: string };
+}
+
+/**
+ * Reads and parses a JSON file, returning null when it does not exist
+ */
+async function readJson(filePath: string): Promise<any | null> {
+    try {
+        return JSON.parse(await fs.readFile(filePath, 'utf8'));
+    } catch (error: any) {
+        if (error?.code === 'ENOENT') {
+            return null;
+        }
+        throw new Error(`Unable to read ${filePath}: ${error?.message || String(error)}`);
+    }
+}
+
+/**
+ * Whether a file or directory exists
+ */
+async function exists(filePath: string): Promise<boolean> {
+    try {
+        await fs.access(filePath);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Reads the `packages` list of a `pnpm-workspace.yaml`.
+ * Only the block list form used by pnpm is supported, which avoids pulling in a YAML parser.
+ * @param content - Raw YAML content
+ * @returns Package globs
+ */
+export function parsePnpmWorkspace(content: string): string[] {
+    const patterns: string[] = [];
+    let inPackages = false;
+    for (const line of content.split(/\r?\n/)) {
+        const text = line.replace(/\s+#.*$/, '');
+        if (/^packages\s*:/.test(text)) {
+            inPackages = true;
+            continue;
+        }
+        if (!inPackages || text.trim() === '') {
+            continue;
+        }
+        const item = /^\s+-\s*(.+)$/.exec(text);
+        if (!item) {
+            if (/^\S/.test(text)) {
+                inPackages = false;
+            }
+            continue;
+        }
+        patterns.push(item[1].trim().replace(/^['"]|['"]$/g, ''));
+    }
+    return patterns;
+}
+
+/**
+ * Collects the workspace globs declared by Lerna, npm/yarn `workspaces` and pnpm
+ * @param rootDir - Repository root
+ * @returns Package globs, negated globs included
+ */
+export async function getWorkspacePatterns(rootDir: string): Promise<string[]> {
+    const patterns: string[] = [];
+
+    const lerna = await readJson(path.join(rootDir, COLLECTOR_FILES.LERNA));
+    if (lerna && !lerna.useWorkspaces) {
+        patterns.push(...(lerna.packages || LERNA_DEFAULT_PACKAGES));
+    }
+
+    const pkg = await readJson(path.join(rootDir, COLLECTOR_FILES.PACKAGE));
+    const workspaces = Array.isArray(pkg?.workspaces) ? pkg.workspaces : pkg?.workspaces?.packages;
+    patterns.push(...(workspaces || []));
+
+    const pnpmPath = path.join(rootDir, COLLECTOR_FILES.PNPM_WORKSPACE);
+    if (await exists(pnpmPath)) {
+        patterns.push(...parsePnpmWorkspace(await fs.readFile(pnpmPath, 'utf8')));
+    }
+
+    return [...new Set(patterns)];
+}
+
+/**
+ * Finds the workspace packages of the repository.
+ * A repository without workspace configuration is treated as a single package.
+ * @param rootDir - Repository root
+ * @returns Repository relative package directories, `.` for the root package
+ */
+export async function discoverPackages(rootDir: string): Promise<string[]> {
+    const patterns = await getWorkspacePatterns(rootDir);
+    if (patterns.length === 0) {
+        return ['.'];
+    }
+
+    const include = patterns.filter((p) => !p.startsWith('!')).map((p) => p.replace(/\/$/, ''));
+    const ignore = patterns.filter((p) => p.startsWith('!')).map((p) => p.slice(1));
+    const dirs = await fg(include, {
+        cwd: rootDir,
+        onlyDirectories: true,
+        ignore: ['**/node_modules/**', ...ignore],
+    });
+
+    const packages: string[] = [];
+    for (const dir of dirs.sort()) {
+        if (await exists(path.join(rootDir, dir, COLLECTOR_FILES.PACKAGE))) {
+            packages.push(dir);
+        }
+    }
+    return packages;
+}
+
+/**
+ * Points the `.mocharc.json` of each package at the JSON reporter.
+ * The original file is backed up next to it, and an existing backup is never overwritten,
+ * so running the update twice still restores the developer's own config.
+ * @param rootDir - Repository root
+ * @param packages - Repository relative package directories
+ * @returns Packages whose config was updated
+ */
+export async function updateMochaConfigs(rootDir: string, packages: string[]): Promise<string[]> {
+    const updated: string[] = [];
+    for (const pkg of packages) {
+        const configPath = path.join(rootDir, pkg, COLLECTOR_FILES.MOCHA_CONFIG);
+        const backupPath = path.join(rootDir, pkg, COLLECTOR_FILES.MOCHA_BACKUP);
+        const config = await readJson(configPath);
+        if (!config) {
+            continue;
+        }
+        if (!(await exists(backupPath))) {
+            await fs.copyFile(configPath, backupPath);
+        }
+        const reporterConfig = {
+            ...config,
+            reporter: 'json',
+            'reporter-option': [`output=${COLLECTOR_FILES.MOCHA_RESULTS}`],
+        };
+        await fs.writeFile(configPath, JSON.stringify(reporterConfig, null, 2) + '\n');
+        updated.push(pkg);
+        console.log(`✅ Updated ${path.posix.join(pkg, COLLECTOR_FILES.MOCHA_CONFIG)}`);
+    }
+    return updated;
+}
+
+/**
+ * Puts back the `.mocharc.json` files saved by {@link updateMochaConfigs}
+ * @param rootDir - Repository root
+ * @param packages - Repository relative package directories
+ */
+export async function restoreMochaConfigs(rootDir: string, packages: string[]): Promise<void> {
+    for (const pkg of packages) {
+        const configPath = path.join(rootDir, pkg, COLLECTOR_FILES.MOCHA_CONFIG);
+        const backupPath = path.join(rootDir, pkg, COLLECTOR_FILES.MOCHA_BACKUP);
+        if (await exists(backupPath)) {
+            await fs.copyFile(backupPath, configPath);
+            await fs.unlink(backupPath);
+            console.log(`✅ Restored ${path.posix.join(pkg, COLLECTOR_FILES.MOCHA_CONFIG)}`);
+        }
+    }
+}
+
+/**
+ * Converts Mocha's JSON reporter output into unit report entries keyed by repository relative path
+ * @param results - Parsed `test-results.json`
+ * @param rootDir - Repository root
+ * @param packageDir - Absolute directory of the package that produced the results
+ * @returns Report entries of the package
+ */
+export function parseMochaResults(results: any, rootDir: string, packageDir: string): TestReport {
+    const report: TestReport = {};
+    const pending = new Set((results.pending || []).map((t: MochaTest) => t.fullTitle));
+    const failures = new Map<string, MochaTest>((results.failures || []).map((t: MochaTest) => [t.fullTitle, t]));
+
+    for (const test of (results.tests || []) as MochaTest[]) {
+        const file = test.file ? path.resolve(packageDir, test.file) : packageDir;
+        const key = path.relative(rootDir, file).split(path.sep).join('/');
+        const suite = test.fullTitle.slice(0, test.fullTitle.length - test.title.length).trim();
+        const failure = failures.get(test.fullTitle);
+        const message = failure?.err?.message || test.err?.message;
+
+        const entry: TestCaseResult = {
+            title: test.title,
+            suitePath: suite ? [suite] : [],
+            status: pending.has(test.fullTitle) ? 'pending' : failure || message ? 'failed' : 'passed',
+            duration: test.duration,
+        };
+        if (entry.status === 'failed' && message) {
+            entry.failureMessage = message;
+        }
+        report[key] = report[key] || [];
+        report[key].push(entry);
+    }
+    return report;
+}
+
+/**
+ * Merges the Mocha results of every package into the unit report.
+ * Each package's `test-results.json` is removed once it has been read.
+ * @param rootDir - Repository root
+ * @param packages - Repository relative package directories
+ * @param outputFile - Unit report path, relative to the repository root
+ * @returns The merged report
+ */
+export async function collectReport(rootDir: string, packages: string[], outputFile: string): Promise<TestReport> {
+    const report: TestReport = {};
+    for (const pkg of packages) {
+        const packageDir = path.join(rootDir, pkg);
+        const resultsPath = path.join(packageDir, COLLECTOR_FILES.MOCHA_RESULTS);
+        const results = await readJson(resultsPath);
+        if (!results) {
+            continue;
+        }
+        for (const [file, tests] of Object.entries(parseMochaResults(results, rootDir, packageDir))) {
+            report[file] = [...(report[file] || []), ...tests];
+        }
+        await fs.unlink(resultsPath);
+        console.log(`✅ Collected ${results.tests?.length ?? 0} test(s) from ${pkg}`);
+    }
+
+    const outputPath = path.resolve(rootDir, outputFile);
+    await fs.mkdir(path.dirname(outputPath), { recursive: true });
+    await fs.writeFile(outputPath, JSON.stringify(report, null, 2));
+    console.log(`✅ Wrote ${Object.keys(report).length} test file(s) to ${outputFile}`);
+    return report;
+}
+
+/**
+ * Runs the project's test command through the shell and resolves with its exit code
+ */
+function runTestCommand(command: string, cwd: string): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const child = spawn(command, { cwd, shell: true, stdio: 'inherit' });
+        child.on('error', reject);
+        child.on('close', (code) => resolve(code ?? 1));
+    });
+}
+
+/**
+ * Updates the Mocha configs, runs the tests, collects the report and always restores the configs.
+ * Failing tests are part of the report, so a non-zero test exit code is only logged.
+ * @param rootDir - Repository root
+ * @param packages - Repository relative package directories
+ * @param testCommand - Command running the tests of every package
+ * @param outputFile - Unit report path, relative to the repository root
+ */
+export async function runCollector(
+    rootDir: string,
+    packages: string[],
+    testCommand: string,
+    outputFile: string,
+): Promise<void> {
+    try {
+        await updateMochaConfigs(rootDir, packages);
+        console.log(`\n📡 Running "${testCommand}"\n`);
+        const exitCode = await runTestCommand(testCommand, rootDir);
+        if (exitCode !== 0) {
+            console.log(`⚠️ "${testCommand}" exited with code ${exitCode}`);
+        }
+        await collectReport(rootDir, packages, outputFile);
+    } finally {
+        await restoreMochaConfigs(rootDir, packages);
+    }
+}
+
+/**
+ * Command line entry: `ts-node loopbackCollector.ts <update-mocha|collect-report|restore-mocha|run>`
+ */
+async function main(): Promise<void> {
+    const action = process.argv[2]?.toLowerCase() as CollectorAction;
+    if (!ACTIONS.includes(action)) {
+        throw new Error(`Unknown action "${process.argv[2] ?? ''}". Expected one of: ${ACTIONS.join(', ')}`);
+    }
+
+    const rootDir = process.cwd();
+    const outputFile = process.env.REPORT_FILE_PATH || DEFAULT_OUTPUT_FILE;
+    const packages = await discoverPackages(rootDir);
+    console.log(`📦 Packages: ${packages.join(', ') || 'none'}`);
+
+    switch (action) {
+        case 'update-mocha':
+            await updateMochaConfigs(rootDir, packages);
+            break;
+        case 'collect-report':
+            try {
+                await collectReport(rootDir, packages, outputFile);
+            } finally {
+                await restoreMochaConfigs(rootDir, packages);
+            }
+            break;
+        case 'restore-mocha':
+            await restoreMochaConfigs(rootDir, packages);
+            break;
+        case 'run':
+            await runCollector(rootDir, packages, process.env.TEST_COMMAND || 'npm test', outputFile);
+            break;
+    }
+}
+
+if (require.main === module) {
+    main().catch((error) => {
+        console.error(`\n❌ LoopBack report collection failed: ${error?.message || String(error)}\n`);
+        process.exit(1);
+    });
+}
@@ -5,7 +5,7 @@
  * 1. Validates the presence of a report file path in environment variables.
  * 2. Retrieves the Jira ticket title and project documentation.
  * 3. Adds the project document to the vector store for retrieval.
- * 4. Prepares a user prompt by injecting the Jira title and report content.
+ * 4. Renders the user prompt template with the Jira story, report and PR context.
  * 5. Writes the prepared prompt to a file for debugging or logging purposes.
  * 6. Iterates over the configured LLM model names, generating responses for each,
  *    and aggregates the results.
@@ -14,63 +14,51 @@
  *
  * @returns {Promise<string>} The aggregated response from all models, or an error message.
  */
-import fs from 'fs';
 import {
-    GetJiraTitle,
-    GetUserPrompt,
-    GetProjectDocument,
-    GetReportFileContent,
     GetPullRequestDiff,
-    GetJiraId,
     CreateUpdateComments,
-    GetSummarizePrompt,
 } from 'OpenRouterAICore/thirdPartyUtils';
 
 import { ERRORS, ENV_VARIABLES as GlobalENV } from 'OpenRouterAICore/environment';
-import { ENV_VARIABLES } from './environment';
-import { GetStore } from 'OpenRouterAICore/store/utils';
+import { ENV_VARIABLES, validateConfluenceOutput } from './environment';
 import { logger } from 'OpenRouterAICore/pino';
-import { ConfluenceCreatePageTool } from 'OpenRouterAICore/tools';
 import { CustomError } from 'OpenRouterAICore/customError';
-
-/**
- * Parses and filters the test report file based on Pull Request changes
- * @returns Filtered report content as JSON string, or empty string if parsing fails
- */
-async function parseReportFile(): Promise<string> {
-    try {
-        const files = await GetPullRequestDiff();
-        const filteredFiles = files.map(f => f.replace('src', 'dist').replace('.ts', ''));
-        const reportPath = process.cwd() + '/' + ENV_VARIABLES.REPORT_FILE_PATH;
-        let reportFileContent = await GetReportFileContent(reportPath);
-
-        // If no files in PR, return full report
-        if (filteredFiles.length === 0) {
-            return reportFileContent;
-        }
-
-        const reportFileJson = JSON.parse(reportFileContent);
-        const result: Record<string, string> = {};
-
-        // Filter report to only include files changed in PR
-        for (const fileKey of Object.keys(reportFileJson)) {
-            if (filteredFiles.some(f => fileKey.includes(f))) {
-                const fileName = fileKey.split('/').pop() || fileKey;
-                result[fileName] = reportFileJson[fileKey];
-            }
-        }
-
-        // Return filtered results if any, otherwise return full report
-        if (Object.keys(result).length > 0) {
-            return JSON.stringify(result, null, 2);
-        }
-        return reportFileContent;
-    } catch (error) {
-        console.error('Error parsing report file:', error);
-        logger.error('Error in parsing Report', error);
-        return '';
-    }
-}
+import { withRetry } from './retry';
+import { API_SOURCE, FILE_PATHS, HTML_TAGS } from './constants';
+import type { ExportFormat } from './constants';
+import { analyzeTickets, renderTicketPage, renderTicketSummary } from './analysisPipeline';
+import { discoverJiraTickets, parseTicketSources } from './jiraTickets';
+import {
+    combineQualityMetrics,
+    evaluateQualityGate,
+    getQualityGateFailures,
+    getQualityGateSummary,
+    getQualityThresholds,
+} from './qualityGate';
+import { writeActionOutputs } from './actionOutputs';
+import { createCheckRun, getCheckAnnotations, getCheckRunTitle } from './checkRun';
+import { writeBackToJira } from './jiraWriteBack';
+import { parseExportFormats, writeReports } from './exporters';
+import { parsePageHierarchy, publishConfluencePage } from './confluencePublisher';
+import { getCurrentRun } from './githubContext';
+import {
+    appendHistoryEntry,
+    createHistoryEntry,
+    fetchScoreHistory,
+    getHistoryPage,
+    getTrendSummary,
+    renderHistoryPayload,
+} from './scoreHistory';
+import type {
+    ActionOutputs,
+    AnalysisExport,
+    CheckRunReport,
+    ConfluencePageResponse,
+    QualityGateResult,
+    QualityThresholds,
+    ScoreHistoryEntry,
+    TicketAnalysis,
+} from './types';
 
 /**
  * Generates the summary response header with Jira branding
@@ -90,107 +78,163 @@ function getPRLink(): string {
 }
 
 /**
- * Generates an HTML link to the Confluence page
+ * Generates the URL of the Confluence page
  * @param createPageResponse - Response object from Confluence page creation
- * @returns HTML anchor tag with Confluence page link
+ * @returns Confluence page URL
  */
-function getConfluenceLink(createPageResponse: { pageId: string; pageTitle: string }): string {
-    return `<a target="_blank" href="${ENV_VARIABLES.JIRA_URL_OUTPUT}/wiki/spaces/` +
+function getConfluenceUrl(createPageResponse: ConfluencePageResponse): string {
+    if (createPageResponse.url) {
+        return createPageResponse.url;
+    }
+    return `${ENV_VARIABLES.JIRA_URL_OUTPUT}/wiki/spaces/` +
         `${ENV_VARIABLES.JIRA_SPACE_KEY_OUTPUT}/pages/` +
-        `${createPageResponse.pageId}/${createPageResponse.pageTitle}">link</a>`;
+        `${createPageResponse.pageId}/${createPageResponse.pageTitle}`;
 }
 
 /**
- * Processes AI model responses for test quality analysis
- * Calls each configured model, generates responses and summaries
- *
- * @param modelNames - Array of AI model names to use
- * @param store - Vector store instance for RAG
- * @param userPrompt - The user prompt for quality analysis
- * @param summaryResponse - Initial summary response string
- * @returns Object containing full response and summary response
- * @throws Error if API calls fail (rate limits, authentication, etc.)
+ * Generates an HTML link to the Confluence page
+ * @param createPageResponse - Response object from Confluence page creation
+ * @returns HTML anchor tag with Confluence page link
  */
-async function processModelResponses(
-    modelNames: string[],
-    store: any,
-    userPrompt: string,
-    summaryResponse: string
-): Promise<{ response: string; summaryResponse: string }> {
-    let response = '';
-    for (const modelName of modelNames) {
-        try {
-            logger.info(`🤖 Calling AI Model: ${modelName}`);
-            console.log(`📡 Making API call to OpenRouter with model: ${modelName.trim()}`);
+function getConfluenceLink(createPageResponse: ConfluencePageResponse): string {
+    return `<a target="_blank" href="${getConfluenceUrl(createPageResponse)}">link</a>`;
+}
 
-            let storeResponse: string = await store.generate(
-                modelName.trim(),
-                GlobalENV.JIRA_PROJECT_KEY + '-index',
-                userPrompt
-            );
-            console.log(`✅ Received response from model: ${modelName}`);
+/**
+ * Loads the score history of the PR from the action's earlier comment
+ * @returns Recorded runs, oldest first; empty outside a PR or when the comments cannot be read
+ */
+async function loadScoreHistory(): Promise<ScoreHistoryEntry[]> {
+    const issueNumber = Number(GlobalENV.GITHUB_ISSUE_NUMBER);
+    if (!Number.isInteger(issueNumber)) {
+        return [];
+    }
+    try {
+        const history = await fetchScoreHistory(issueNumber);
+        console.log(`✅ Score history loaded: ${history.length} earlier run(s)`);
+        return history;
+    } catch (e: any) {
+        console.error('❌ Error loading the score history, starting a new one:', e?.message || String(e));
+        logger.error('Error loading score history', e);
+        return [];
+    }
+}
 
-            response += `<b>ResponseModel:-</b> ${modelName} <br /><br/>`;
-            response += storeResponse;
+/**
+ * Publishes the GitHub check run. A failure is logged without failing the run, as the PR comment
+ * already carries the results.
+ * @param report - Conclusion, title, summary and annotations
+ */
+async function publishCheckRun(report: CheckRunReport): Promise<void> {
+    logger.info('Step 12: Creating GitHub Check Run...');
+    console.log(`✔️ Creating check run "${ENV_VARIABLES.CHECK_RUN_NAME}"...`);
+    try {
+        const checkRunUrl = await createCheckRun(ENV_VARIABLES.CHECK_RUN_NAME, report);
+        console.log('✅ Check run created:', checkRunUrl);
+    } catch (e: any) {
+        const errorMessage = e?.message || String(e);
+        const statusCode = e?.status || e?.statusCode || e?.response?.status;
+
+        console.error(`❌ Error creating GitHub check run:`);
+        console.error(`   Status Code: ${statusCode || 'N/A'}`);
+        console.error(`   Error Message: ${errorMessage}`);
+
+        if (statusCode === 403) {
+            console.error(`\n⚠️  PERMISSION ERROR (403)`);
+            console.error(`   Source: GitHub API`);
+            console.error(`   Action: Grant the workflow "checks: write" permission; PRs from forks cannot create check runs\n`);
+        }
 
-            logger.info(`📊 Generating summary for model: ${modelName}`);
-            console.log(`📡 Making summary API call to OpenRouter with model: ${modelName}`);
+        logger.error(`GitHub check run error:`, e);
+    }
+}
 
-            let sResponse: string = await store.makeCallToModel(
-                modelName, storeResponse,
-                GetSummarizePrompt()
-            );
-            console.log(`✅ Received summary from model: ${modelName}`);
+/**
+ * Writes the report files to OUTPUT_DIR. A failure is logged without failing the run,
+ * as the PR comment and the Confluence page still carry the results.
+ * @param formats - Formats to write
+ * @param report - Results of the run
+ */
+function exportReports(formats: ExportFormat[], report: AnalysisExport): void {
+    logger.info('Step 9: Writing Report Files...');
+    try {
+        const files = writeReports(ENV_VARIABLES.OUTPUT_DIR, formats, report);
+        console.log(`✅ Report files written: ${files.join(', ')}`);
+    } catch (e: any) {
+        console.error(`❌ Error writing report files to ${ENV_VARIABLES.OUTPUT_DIR}:`);
+        console.error(`   Error Message: ${e?.message || String(e)}`);
+        logger.error(`Report export error:`, e);
+    }
+}
 
-            sResponse = sResponse.split('```json').join('').split('```').join('');
-            try {
-                let sResponseJson = JSON.parse(sResponse);
-                summaryResponse += `\n<b>Model:-</b> ${modelName}`;
-                summaryResponse += `\n<b>Summary:-</b> ${sResponseJson.summary}`;
-                summaryResponse += `\n<b>Score:-</b> ${sResponseJson.score}`;
-            } catch (e) {
-                logger.error(`Failed to parse summary JSON for model ${modelName}:`, e);
-            }
-            if (modelNames.length > 1)
-                response += '<br /><br /><br />=================================<br />';
-        } catch (error: any) {
-            const errorMessage = error?.message || String(error);
-            const statusCode = error?.status || error?.statusCode || error?.response?.status;
+/**
+ * Writes the results back to each analysed Jira issue. A failure is logged without failing the run,
+ * as the PR comment and the Confluence page already carry the results.
+ * @param analyses - Analysis of each ticket
+ * @param thresholds - Quality gate thresholds, checked per ticket for the labels
+ * @param confluenceUrl - Link to the Confluence page; empty when it could not be created
+ */
+async function publishJiraResults(analyses: TicketAnalysis[], thresholds: QualityThresholds, confluenceUrl: string): Promise<void> {
+    logger.info('Step 11: Writing Results to Jira...');
+    const run = getCurrentRun();
+    for (const { issue, metrics } of analyses) {
+        const ticketGate = evaluateQualityGate(metrics, thresholds);
+        try {
+            await writeBackToJira({
+                key: issue.key,
+                score: metrics.score,
+                missingCount: metrics.missingCount,
+                gatePassed: ticketGate.checks.length > 0 ? ticketGate.passed : null,
+                pullRequest: `${GlobalENV.GITHUB_OWNER}/${GlobalENV.GITHUB_REPO}#${GlobalENV.GITHUB_ISSUE_NUMBER}`,
+                pullRequestUrl: `https://github.com/${GlobalENV.GITHUB_OWNER}/${GlobalENV.GITHUB_REPO}/pull/${GlobalENV.GITHUB_ISSUE_NUMBER}`,
+                confluenceUrl,
+                run,
+            }, ENV_VARIABLES);
+            console.log(`✅ Results written to Jira issue ${issue.key}`);
+        } catch (e: any) {
+            const errorMessage = e?.message || String(e);
+            const statusCode = e?.status || e?.statusCode || e?.response?.status;
 
-            console.error(`❌ Error with model ${modelName}:`);
+            console.error(`❌ Error writing results to Jira issue ${issue.key}:`);
             console.error(`   Status Code: ${statusCode || 'N/A'}`);
             console.error(`   Error Message: ${errorMessage}`);
 
-            if (statusCode === 429 || errorMessage.includes('429') || errorMessage.toLowerCase().includes('rate limit')) {
-                console.error(`\n⚠️  RATE LIMIT ERROR (429) - Too Many Requests`);
-                console.error(`   Source: OpenRouter AI API`);
-                console.error(`   Model: ${modelName}`);
-                console.error(`   Action: Check your OpenRouter API rate limits and credits`);
-                console.error(`   URL: https://openrouter.ai/account`);
-                console.error(`   Tip: Wait a few minutes and try again, or upgrade your plan\n`);
+            if (statusCode === 400) {
+                console.error(`\n⚠️  BAD REQUEST (400)`);
+                console.error(`   Source: Jira API`);
+                console.error(`   Action: Check JIRA_SCORE_FIELD is a number field on the issue's edit screen\n`);
+            } else if (statusCode === 403) {
+                console.error(`\n⚠️  PERMISSION ERROR (403)`);
+                console.error(`   Source: Jira API`);
+                console.error(`   Action: Check the Jira user may add comments to and edit ${issue.key}\n`);
             }
 
-            logger.error(`Error processing model ${modelName}:`, error);
-            throw error; // Re-throw to be caught by main error handler
+            logger.error(`Jira write-back error:`, e);
         }
     }
-    return { response, summaryResponse };
 }
 
 /**
  * Main execution function for test quality analysis workflow
  *
  * Orchestrates the complete workflow:
- * 1. Fetches Jira ticket information
- * 2. Retrieves project documentation
- * 3. Parses test report
- * 4. Generates AI-powered quality analysis
- * 5. Creates Confluence page with results
+ * 1. Fetches the files changed by the PR and discovers its Jira tickets
+ * 2. Runs the analysis of every ticket (see `analyzeTickets`)
+ * 3. Checks the quality gate thresholds and records the run in the PR's score history
+ * 4. Writes the report files, when OUTPUT_DIR is set
+ * 5. Creates or updates the Confluence page with results
  * 6. Posts summary to GitHub PR
+ * 7. Writes the results back to the Jira issues, when JIRA_WRITE_BACK is enabled
+ * 8. Creates the GitHub check run with annotations on the changed files
+ * 9. Publishes the step outputs
+ *
+ * A run that fails or breaches the quality gate sets a failing exit code.
  *
  * @returns Response message (success or error)
  */
 async function main(): Promise<string> {
+    validateConfluenceOutput(ENV_VARIABLES);
+
     // Log API key verification (last 10 characters for security)
     const apiKey = GlobalENV.OPEN_ROUTER_API_KEY || '';
     const maskedKey = apiKey.length > 5 ? '...' + apiKey.slice(-5) : 'NOT_SET';
@@ -199,7 +243,15 @@ async function main(): Promise<string> {
 
     let response: string = '';
     let summaryResponse: string = getSummaryResponseString();
+    let gate: QualityGateResult | null = null;
+    let checkRunReport: CheckRunReport | null = null;
+    const outputs: ActionOutputs = { score: '', missing_count: '', confluence_url: '', comment_body: '' };
     try {
+        const thresholds = getQualityThresholds(ENV_VARIABLES);
+        const ticketSources = parseTicketSources(ENV_VARIABLES.JIRA_TICKET_SOURCES);
+        const exportFormats = parseExportFormats(ENV_VARIABLES.OUTPUT_FORMATS);
+        const pageHierarchy = parsePageHierarchy(ENV_VARIABLES.CONFLUENCE_PAGE_HIERARCHY);
+
         if (ENV_VARIABLES.REPORT_FILE_PATH.trim() === '') {
             throw new CustomError(
                 ERRORS.ENV_NOT_SET,
@@ -207,127 +259,76 @@ async function main(): Promise<string> {
             );
         }
 
-        logger.info('Step 1: Fetching Jira Title...');
-        console.log(`📡 Calling Jira API to fetch ticket: ${GetJiraId()}`);
-        let jiraTitle: string;
+        let changedFiles: string[] = [];
         try {
-            jiraTitle = await GetJiraTitle();
-            console.log('✅ Jira Title:', jiraTitle);
-        } catch (e: any) {
-            const errorMessage = e?.message || String(e);
-            const statusCode = e?.status || e?.statusCode || e?.response?.status;
-
-            console.error(`❌ Error fetching Jira Title:`);
-            console.error(`   Status Code: ${statusCode || 'N/A'}`);
-            console.error(`   Error Message: ${errorMessage}`);
-
-            if (statusCode === 429 || errorMessage.includes('429')) {
-                console.error(`\n⚠️  RATE LIMIT ERROR (429) - Too Many Requests`);
-                console.error(`   Source: Jira API (GetJiraTitle)`);
-                console.error(`   Action: Your Jira account has exceeded API rate limits`);
-                console.error(`   Tip: Wait a few minutes and try again\n`);
-            } else if (statusCode === 401) {
-                console.error(`\n⚠️  AUTHENTICATION ERROR (401)`);
-                console.error(`   Source: Jira API`);
-                console.error(`   Action: Check JIRA_API_TOKEN is valid\n`);
-            } else if (statusCode === 404) {
-                console.error(`\n⚠️  NOT FOUND ERROR (404)`);
-                console.error(`   Source: Jira API`);
-                console.error(`   Action: Check JIRA ticket ${GetJiraId()} exists\n`);
-            }
-
-            throw e;
+            changedFiles = await withRetry(API_SOURCE.GITHUB, 'Fetch Pull Request files', () => GetPullRequestDiff());
+        } catch (e) {
+            logger.error('Error fetching Pull Request files', e);
         }
 
-        logger.info('Step 2: Fetching Project Document...');
-        console.log('📡 Fetching project documentation from Confluence/S3...');
-        let projectDocument: string;
-        try {
-            projectDocument = await GetProjectDocument();
-            console.log('✅ Project Document fetched successfully');
-        } catch (e: any) {
-            const errorMessage = e?.message || String(e);
-            const statusCode = e?.status || e?.statusCode || e?.response?.status;
-
-            console.error(`❌ Error fetching Project Document:`);
-            console.error(`   Status Code: ${statusCode || 'N/A'}`);
-            console.error(`   Error Message: ${errorMessage}`);
-
-            if (statusCode === 429 || errorMessage.includes('429')) {
-                console.error(`\n⚠️  RATE LIMIT ERROR (429) - Too Many Requests`);
-                console.error(`   Source: Confluence/S3 API (GetProjectDocument)`);
-                console.error(`   Action: API rate limit exceeded`);
-                console.error(`   Tip: Wait a few minutes and try again\n`);
-            }
-
-            throw e;
+        logger.info('Step 1: Discovering Jira Tickets...');
+        const tickets = await discoverJiraTickets(ticketSources, changedFiles);
+        if (tickets.length === 0) {
+            throw new CustomError(
+                ERRORS.ENV_NOT_SET,
+                `No Jira ticket found in the ${ticketSources.join(', ')} of the Pull Request.`
+            );
         }
-
-        logger.info('Step 3: Initializing Vector Store...');
-        const store = GetStore();
-        await store.addDocument(GlobalENV.JIRA_PROJECT_KEY + '-index', projectDocument);
-        console.log('✅ Document added to vector store');
-
-        logger.info('Step 4: Parsing Report File...');
-        const reportFileContent = await parseReportFile();
-        console.log('✅ Report file parsed successfully');
-
-        logger.info('Step 5: Preparing User Prompt...');
-        let userPrompt: string = await GetUserPrompt();
-        userPrompt = userPrompt.replace('##PLACEHOLDER##', jiraTitle.replace('{', ''));
-        userPrompt = userPrompt.replace('##REPORT##', reportFileContent);
-        userPrompt = userPrompt.split('{').join('');
-        userPrompt = userPrompt.split('}').join('');
-
-        fs.writeFileSync('prompt.txt', userPrompt);
-        console.log('✅ Prompt prepared and saved');
-
-        logger.info(`Step 6: Getting Response from OpenRouter API`);
-        logger.info(`API URL: ${GlobalENV.OPEN_ROUTER_API_URL}`);
-        logger.info(`Models: ${GlobalENV.OPEN_ROUTER_MODEL}`);
-
-        
-
-        // Add 60-second delay before making OpenRouter API calls to avoid rate limits
-        console.log('⏳ Waiting 60 seconds before making OpenRouter API calls...');
-        logger.info('Adding 60-second delay to avoid rate limits');
-        await new Promise(resolve => setTimeout(resolve, 60000));
-        console.log('✅ Delay completed, proceeding with API calls');
-
-        const modelNames = GlobalENV.OPEN_ROUTER_MODEL.split(',');
-
-        const modelResults = await processModelResponses(modelNames, store, userPrompt, summaryResponse);
-        response = modelResults.response;
-        summaryResponse = modelResults.summaryResponse;
+        console.log(`✅ Jira tickets: ${tickets.map((t) => `${t.key} (${t.sources.join(', ')})`).join(', ')}`);
+
+        const analyses = await analyzeTickets(tickets, {
+            changedFiles,
+            modelNames: GlobalENV.OPEN_ROUTER_MODEL.split(',').map((name: string) => name.trim()).filter(Boolean),
+            promptName: GlobalENV.USE_FOR,
+            repo: `${GlobalENV.GITHUB_OWNER}/${GlobalENV.GITHUB_REPO}`,
+            prNumber: String(GlobalENV.GITHUB_ISSUE_NUMBER),
+            promptOutputPath: FILE_PATHS.PROMPT_OUTPUT,
+            settings: ENV_VARIABLES,
+        });
+        response = renderTicketPage(analyses);
+        summaryResponse += renderTicketSummary(analyses);
+
+        const metrics = combineQualityMetrics(analyses.map((analysis) => analysis.metrics));
+        gate = evaluateQualityGate(metrics, thresholds);
+        summaryResponse += getQualityGateSummary(gate);
+        outputs.score = metrics.score === null ? '' : String(metrics.score);
+        outputs.missing_count = metrics.missingCount === null ? '' : String(metrics.missingCount);
+        const annotations = getCheckAnnotations(analyses, changedFiles);
+
+        const testCount = Math.max(...analyses.map((analysis) => analysis.run.smellReport.testCount));
+        const history = appendHistoryEntry(await loadScoreHistory(), createHistoryEntry(metrics, testCount));
+        summaryResponse += getTrendSummary(history);
         if (response) {
+            const pageContent =
+                '<b>Date:-</b>' + new Date().toLocaleString(undefined, { timeZone: 'Asia/Kolkata' }) + "<br />" +
+                '<b>Repo:-</b>' + GlobalENV.GITHUB_REPO + '<br />' +
+                '<b>PR:-</b>' + getPRLink() + '<br />' +
+                '<b>For:-</b>' + GlobalENV.USE_FOR + '<br />' +
+                response +
+                HTML_TAGS.BREAK + getHistoryPage(history);
+
             try {
-                logger.info('Step 7: Creating Confluence Page...');
+                logger.info('Step 8: Publishing Confluence Page...');
                 console.log('📝 Preparing Confluence page content...');
 
-                response = response.split('```markdown').join('')
-                    .split('```').join('')
-                    .split('\n').join('<br />');
-
-                const createPageResponse = await ConfluenceCreatePageTool(
-                    ENV_VARIABLES.JIRA_URL_OUTPUT,
-                    ENV_VARIABLES.JIRA_EMAIL_OUTPUT,
-                    ENV_VARIABLES.JIRA_API_TOKEN_OUTPUT,
-                    ENV_VARIABLES.JIRA_SPACE_KEY_OUTPUT,
-                    GetJiraId()
-                ).func(
-                    '<b>Date:-</b>' + new Date().toLocaleString(undefined, { timeZone: 'Asia/Kolkata' }) + "<br />" +
-                    '<b>Repo:-</b>' + GlobalENV.GITHUB_REPO + '<br />' +
-                    '<b>PR:-</b>' + getPRLink() + '<br />' +
-                    '<b>For:-</b>' + GlobalENV.USE_FOR + '<br />' +
-                    response
-                );
-                console.log('✅ Confluence page created successfully');
+                const run = getCurrentRun();
+                const createPageResponse = await publishConfluencePage({
+                    repo: `${GlobalENV.GITHUB_OWNER}/${GlobalENV.GITHUB_REPO}`,
+                    pullRequest: String(GlobalENV.GITHUB_ISSUE_NUMBER),
+                    tickets: analyses.map((analysis) => analysis.issue.key),
+                    content: pageContent,
+                    versionMessage: run.commit ? `Test quality run for commit ${run.commit.slice(0, 7)}` : 'Test quality run',
+                }, pageHierarchy, ENV_VARIABLES);
+                console.log(createPageResponse.version && createPageResponse.version > 1
+                    ? `✅ Confluence page updated to version ${createPageResponse.version}`
+                    : '✅ Confluence page created successfully');
+                outputs.confluence_url = getConfluenceUrl(createPageResponse);
                 summaryResponse += '<br /><b>Details:-</b> ' + getConfluenceLink(createPageResponse);
             } catch (e: any) {
                 const errorMessage = e?.message || String(e);
                 const statusCode = e?.status || e?.statusCode || e?.response?.status;
 
-                console.error(`❌ Error creating Confluence page:`);
+                console.error(`❌ Error publishing Confluence page:`);
                 console.error(`   Status Code: ${statusCode || 'N/A'}`);
                 console.error(`   Error Message: ${errorMessage}`);
 
@@ -343,17 +344,45 @@ async function main(): Promise<string> {
                 } else if (statusCode === 403) {
                     console.error(`\n⚠️  PERMISSION ERROR (403)`);
                     console.error(`   Source: Jira/Confluence API`);
-                    console.error(`   Action: Check user has permission to create pages in space ${ENV_VARIABLES.JIRA_SPACE_KEY_OUTPUT}\n`);
+                    console.error(`   Action: Check user has permission to create and edit pages in space ${ENV_VARIABLES.JIRA_SPACE_KEY_OUTPUT}\n`);
+                } else if (statusCode === 404) {
+                    console.error(`\n⚠️  NOT FOUND (404)`);
+                    console.error(`   Source: Jira/Confluence API`);
+                    console.error(`   Action: Check JIRA_SPACE_KEY_OUTPUT and CONFLUENCE_PARENT_PAGE_ID exist\n`);
                 }
 
-                logger.error(`ConfluenceCreatePageTool error:`, e);
+                logger.error(`Confluence publishing error:`, e);
             }
 
-            logger.info('Step 8: Creating GitHub PR Comment...');
+            // Written once the Confluence link is in the summary, so analysis.md holds the posted comment
+            const commentBody = summaryResponse + renderHistoryPayload(history);
+            if (ENV_VARIABLES.OUTPUT_DIR) {
+                exportReports(exportFormats, {
+                    date: new Date().toISOString(),
+                    promptName: GlobalENV.USE_FOR,
+                    repo: `${GlobalENV.GITHUB_OWNER}/${GlobalENV.GITHUB_REPO}`,
+                    pullRequestUrl: `https://github.com/${GlobalENV.GITHUB_OWNER}/${GlobalENV.GITHUB_REPO}/pull/${GlobalENV.GITHUB_ISSUE_NUMBER}`,
+                    changedFiles,
+                    analyses,
+                    gate,
+                    summary: commentBody,
+                    page: pageContent,
+                });
+            }
+
+            checkRunReport = {
+                conclusion: gate.passed ? 'success' : 'failure',
+                title: getCheckRunTitle(metrics, gate),
+                summary: summaryResponse,
+                annotations,
+            };
+
+            logger.info('Step 10: Creating GitHub PR Comment...');
             console.log('💬 Posting comment to GitHub PR...');
             try {
-                const gitResponse = await CreateUpdateComments(summaryResponse);
+                const gitResponse: { data: { html_url: string } } = await withRetry(API_SOURCE.GITHUB, 'Post PR comment', () => CreateUpdateComments(commentBody), false);
                 console.log('✅ GitHub comment posted:', gitResponse.data.html_url);
+                outputs.comment_body = summaryResponse;
             } catch (e: any) {
                 const errorMessage = e?.message || String(e);
                 const statusCode = e?.status || e?.statusCode || e?.response?.status;
@@ -372,6 +401,10 @@ async function main(): Promise<string> {
                 logger.error(`GitHub comment error:`, e);
                 throw e; // Re-throw as this is critical
             }
+
+            if (ENV_VARIABLES.JIRA_WRITE_BACK === 'true') {
+                await publishJiraResults(analyses, thresholds, outputs.confluence_url);
+            }
         }
     } catch (error) {
         console.log(error)
@@ -383,9 +416,23 @@ async function main(): Promise<string> {
             response = `❌ Action failed: ${String(error)}`;
         }
         logger.error(response);
+        process.exitCode = 1;
+        checkRunReport = { conclusion: 'failure', title: 'The analysis failed', summary: response, annotations: [] };
     } finally {
         // Do not return from finally block
     }
+
+    if (ENV_VARIABLES.CHECK_RUN_NAME && checkRunReport) {
+        await publishCheckRun(checkRunReport);
+    }
+
+    writeActionOutputs(outputs);
+    if (gate && !gate.passed) {
+        const failures = getQualityGateFailures(gate);
+        console.error(`❌ Quality gate failed:\n${failures.map((f) => `   - ${f}`).join('\n')}`);
+        logger.error(`Quality gate failed: ${failures.join('; ')}`);
+        process.exitCode = 1;
+    }
     return response;
 }
 
@@ -0,0 +1,126 @@
+/**
+ * Stryker Mutation Report Module
+ * Reads a Stryker `mutation.json` report and summarizes the mutants of the files changed in the Pull Request
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { logger } from 'OpenRouterAICore/pino';
+import { findFileKey } from './coverage';
+import { escapeHtml } from './formatting';
+import type { FileMutationScore, MutationReport } from './types';
+
+/**
+ * Maximum number of surviving mutants listed per file, to keep the prompt small
+ */
+const MAX_SURVIVORS_PER_FILE = 20;
+
+/**
+ * Mutant statuses the tests detected
+ */
+const DETECTED_STATUSES = ['Killed', 'Timeout'];
+
+/**
+ * Mutant statuses the tests missed
+ */
+const UNDETECTED_STATUSES = ['Survived', 'NoCoverage'];
+
+/**
+ * Computes the mutation score and surviving mutants of one file of the report.
+ * Compile errors, runtime errors and ignored mutants are left out of the score, as Stryker does.
+ * @param file - Repository relative file path
+ * @param data - Stryker file result (`files[path]` of the mutation-testing-report schema)
+ * @returns Mutation score for the file
+ */
+export function summarizeFileMutants(file: string, data: any): FileMutationScore {
+    const mutants: any[] = data.mutants || [];
+    const count = (status: string): number => mutants.filter((m) => m.status === status).length;
+
+    const detected = mutants.filter((m) => DETECTED_STATUSES.includes(m.status)).length;
+    const undetected = mutants.filter((m) => UNDETECTED_STATUSES.includes(m.status));
+    const valid = detected + undetected.length;
+
+    return {
+        file,
+        score: valid === 0 ? 100 : Math.round((detected / valid) * 10000) / 100,
+        killed: count('Killed'),
+        timeout: count('Timeout'),
+        survived: count('Survived'),
+        noCoverage: count('NoCoverage'),
+        survivors: undetected
+            .sort((a, b) => a.location.start.line - b.location.start.line)
+            .slice(0, MAX_SURVIVORS_PER_FILE)
+            .map((m) => ({
+                line: m.location.start.line,
+                mutator: m.mutatorName,
+                replacement: m.replacement,
+                status: m.status,
+            })),
+    };
+}
+
+/**
+ * Loads the Stryker report and keeps the files changed in the Pull Request
+ * @param reportPath - Path of the Stryker `mutation.json`, relative to the working directory
+ * @param changedFiles - Repository relative paths of the changed files
+ * @returns Mutation score per changed file, empty when the report is missing
+ */
+export function loadMutationReport(reportPath: string, changedFiles: string[]): MutationReport {
+    const result: MutationReport = {};
+    const fullPath = path.resolve(process.cwd(), reportPath);
+    if (!reportPath || !fs.existsSync(fullPath)) {
+        logger.info(`No mutation report found at ${reportPath}`);
+        return result;
+    }
+
+    try {
+        logger.info(`Reading mutation report: ${fullPath}`);
+        const report = JSON.parse(fs.readFileSync(fullPath, 'utf8'));
+        const files: Record<string, any> = report.files || {};
+        const keys = Object.keys(files);
+
+        for (const file of changedFiles) {
+            const key = findFileKey(keys, file);
+            if (key) {
+                result[file] = summarizeFileMutants(file, files[key]);
+            }
+        }
+    } catch (error) {
+        console.error('Error reading mutation report:', error);
+        logger.error('Error in reading mutation report', error);
+    }
+    return result;
+}
+
+/**
+ * Renders the mutation score and surviving mutants of the changed files for the PR summary
+ * @param mutation - Mutation score per changed file
+ * @returns Markdown table with the surviving mutants, or an empty string when there is no report
+ */
+export function getMutationSummary(mutation: MutationReport): string {
+    const entries = Object.values(mutation);
+    if (entries.length === 0) {
+        return '';
+    }
+    const rows = entries.map(
+        (m) => `| ${m.file} | ${m.score}% | ${m.killed + m.timeout} | ${m.survived + m.noCoverage} |`,
+    );
+    const survivors = entries.flatMap((m) =>
+        m.survivors.map(
+            (s) =>
+                `<li><code>${m.file}:${s.line}</code> ${s.mutator} → ` +
+                `<code>${escapeHtml(s.replacement ?? '')}</code> (${s.status})</li>`,
+        ),
+    );
+
+    let summary = [
+        '\n<b>Mutation score of changed files:-</b>\n',
+        '| File | Mutation score | Killed | Survived |',
+        '|------|----------------|--------|----------|',
+        ...rows,
+    ].join('\n');
+    if (survivors.length > 0) {
+        summary += `\n<details><summary>Surviving mutants</summary><ul>${survivors.join('')}</ul></details>`;
+    }
+    return summary;
+}
@@ -0,0 +1,282 @@
+/**
+ * Source-to-Test Path Mapping
+ * Pairs the source files changed in a Pull Request with the test report entries that exercise them
+ */
+
+import fs from 'fs';
+import path from 'path';
+import picomatch from 'picomatch';
+import { logger } from 'OpenRouterAICore/pino';
+import type { PathMappingRule, TestReport } from './types';
+
+/**
+ * Extensions treated as source code when pairing changed files with tests
+ */
+const CODE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.mts', '.cts', '.vue'];
+
+/**
+ * Suffixes that mark a file as a test (`user.service.spec.ts`, `user.controller.unit.ts`, ...)
+ */
+const TEST_SUFFIX_PATTERN = /\.(spec|test|unit|integration|acceptance|e2e)$/;
+
+/**
+ * Directory names that only group tests and carry no source path information
+ */
+const TEST_DIR_PATTERN = /(^|\/)(__tests__|tests?|spec)(\/(unit|integration|acceptance))?\//g;
+
+/**
+ * Result of mapping a test report onto the changed files
+ */
+export interface PathMappingResult {
+    /** Report entries belonging to the changed files */
+    report: TestReport;
+    /** Changed source files with no test in the report */
+    untestedFiles: string[];
+    /** Whether any changed file is source code that could be mapped */
+    hasCodeChanges: boolean;
+}
+
+/**
+ * Output and root directories declared in a tsconfig
+ */
+interface CompilerDirs {
+    outDir?: string;
+    rootDir?: string;
+}
+
+/**
+ * Normalizes a path to a repository relative, forward-slash form
+ */
+function toRepoPath(filePath: string): string {
+    const relative = path.isAbsolute(filePath) ? path.relative(process.cwd(), filePath) : filePath;
+    return relative.split(path.sep).join('/').replace(/^\.\//, '');
+}
+
+/**
+ * Removes the extension of a path (`src/app.component.ts` → `src/app.component`)
+ */
+function stripExtension(filePath: string): string {
+    const ext = path.posix.extname(filePath);
+    return ext ? filePath.slice(0, -ext.length) : filePath;
+}
+
+/**
+ * Whether a path is a test file
+ */
+export function isTestFile(filePath: string): boolean {
+    return TEST_SUFFIX_PATTERN.test(stripExtension(filePath)) || /(^|\/)__tests__\//.test(filePath);
+}
+
+/**
+ * Whether a path is a source file that tests are expected to cover
+ */
+export function isSourceFile(filePath: string): boolean {
+    return (
+        CODE_EXTENSIONS.includes(path.posix.extname(filePath)) && !filePath.endsWith('.d.ts') && !isTestFile(filePath)
+    );
+}
+
+/**
+ * Parses the `TEST_PATH_MAPPINGS` setting.
+ * Each rule is written as `<source glob> => <test glob>` and rules are separated by new lines or `;`.
+ * Wildcards matched in the source glob are substituted, in order, into the test glob.
+ * @param value - Raw setting value
+ * @returns Parsed rules
+ */
+export function parsePathMappingRules(value: string): PathMappingRule[] {
+    return value
+        .split(/[\n;]/)
+        .map((line) => line.trim())
+        .filter(Boolean)
+        .map((line) => {
+            const [source, test] = line.split('=>').map((part) => part.trim());
+            if (!source || !test) {
+                throw new Error(`Invalid test path mapping "${line}". Expected "<source glob> => <test glob>".`);
+            }
+            return { source, test };
+        });
+}
+
+/**
+ * Reads `outDir` and `rootDir` from the consuming repository's tsconfig.
+ * tsconfig files may contain comments and trailing commas, which are stripped before parsing.
+ * @param tsconfigPath - Path to the tsconfig file
+ * @returns Normalized compiler directories, empty when the file is missing or unreadable
+ */
+export function readCompilerDirs(tsconfigPath: string): CompilerDirs {
+    const fullPath = path.resolve(process.cwd(), tsconfigPath);
+    if (!fs.existsSync(fullPath)) {
+        return {};
+    }
+    try {
+        const content = fs
+            .readFileSync(fullPath, 'utf8')
+            .replace(/\/\*[\s\S]*?\*\/|(^|[^:"])\/\/.*$/gm, '$1')
+            .replace(/,(\s*[}\]])/g, '$1');
+        const options = JSON.parse(content).compilerOptions || {};
+        const normalize = (dir?: string): string | undefined =>
+            dir ? toRepoPath(path.join(path.dirname(tsconfigPath), dir)).replace(/\/$/, '') : undefined;
+        return { outDir: normalize(options.outDir), rootDir: normalize(options.rootDir) };
+    } catch (error) {
+        logger.warn(`Unable to read compiler options from ${tsconfigPath}`, error);
+        return {};
+    }
+}
+
+/**
+ * Converts a glob into a regular expression that captures every `*` and `**` wildcard
+ */
+function globToCapturingRegExp(glob: string): RegExp {
+    let pattern = '';
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (glob.startsWith('**/', i)) {
+            pattern += '(?:(.*)/)?';
+            i += 2;
+        } else if (glob.startsWith('**', i)) {
+            pattern += '(.*)';
+            i += 1;
+        } else if (char === '*') {
+            pattern += '([^/]*)';
+        } else if (char === '?') {
+            pattern += '[^/]';
+        } else if (char === '{') {
+            const end = glob.indexOf('}', i);
+            pattern += `(?:${glob
+                .slice(i + 1, end)
+                .split(',')
+                .map(escapeRegExp)
+                .join('|')})`;
+            i = end;
+        } else {
+            pattern += escapeRegExp(char);
+        }
+    }
+    return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Escapes regular expression metacharacters
+ */
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Fills the wildcards of a test glob with the values captured from the source glob.
+ * Wildcards without a captured value stay in place and keep matching anything.
+ */
+function fillWildcards(glob: string, captures: string[]): string {
+    const values = [...captures];
+    return glob.replace(/\*\*\/|\*\*|\*/g, (token) => {
+        if (values.length === 0) {
+            return token;
+        }
+        const value = values.shift() ?? '';
+        return token === '**/' ? (value ? `${value}/` : '') : value;
+    });
+}
+
+/**
+ * Builds the test globs that configured rules derive from a source file
+ */
+function getRuleTestGlobs(file: string, rules: PathMappingRule[]): string[] {
+    const globs: string[] = [];
+    for (const rule of rules) {
+        const match = globToCapturingRegExp(rule.source).exec(file);
+        if (match) {
+            globs.push(fillWildcards(rule.test, match.slice(1)));
+        }
+    }
+    return globs;
+}
+
+/**
+ * Reduces a report key to the source path it most likely tests:
+ * compiled output is moved back under `rootDir`, the extension and test suffix are dropped
+ * and test-only directories are removed.
+ */
+function toSourceStem(key: string, dirs: CompilerDirs): string {
+    let stem = toRepoPath(key);
+    if (dirs.outDir && stem.startsWith(dirs.outDir + '/')) {
+        const relative = stem.slice(dirs.outDir.length + 1);
+        stem = dirs.rootDir && dirs.rootDir !== '.' ? `${dirs.rootDir}/${relative}` : relative;
+    }
+    return stripExtension(stem).replace(TEST_SUFFIX_PATTERN, '').replace(TEST_DIR_PATTERN, '$1');
+}
+
+/**
+ * Simplified base name used as the last pairing resort, so `AppComponent`, `app.component`
+ * and `app-component.spec.ts` all compare equal
+ */
+function toSimpleName(filePath: string): string {
+    return path.posix
+        .basename(stripExtension(filePath).replace(TEST_SUFFIX_PATTERN, ''))
+        .replace(/[^a-z0-9]/gi, '')
+        .toLowerCase();
+}
+
+/**
+ * Finds the report keys that test a changed file, trying the most specific strategy first:
+ * configured glob rules, then the path with the compiler output and test suffixes normalized,
+ * then the bare file or suite name.
+ */
+function findTestKeys(file: string, keys: string[], rules: PathMappingRule[], dirs: CompilerDirs): string[] {
+    const ruleGlobs = getRuleTestGlobs(file, rules);
+    if (ruleGlobs.length > 0) {
+        const isMatch = picomatch(ruleGlobs);
+        const matched = keys.filter((key) => isMatch(toRepoPath(key)));
+        if (matched.length > 0) {
+            return matched;
+        }
+    }
+
+    const stem = toSourceStem(file, dirs);
+    const byPath = keys.filter((key) => {
+        const keyStem = toSourceStem(key, dirs);
+        return keyStem === stem || (keyStem.includes('/') && stem.endsWith('/' + keyStem));
+    });
+    if (byPath.length > 0) {
+        return byPath;
+    }
+
+    const simpleName = toSimpleName(file);
+    return keys.filter((key) => toSimpleName(key) === simpleName);
+}
+
+/**
+ * Maps the test report onto the files changed in the Pull Request.
+ * Changed test files keep their own entries; changed source files are paired with
+ * their tests, and sources without any test are reported as untested.
+ * @param report - Full per-file test report
+ * @param changedFiles - Repository relative paths of the changed files
+ * @param rules - Configured source-to-test glob rules
+ * @param tsconfigPath - tsconfig used to resolve compiled output paths
+ * @returns Filtered report and the untested source files
+ */
+export function mapReportToChangedFiles(
+    report: TestReport,
+    changedFiles: string[],
+    rules: PathMappingRule[],
+    tsconfigPath: string,
+): PathMappingResult {
+    const dirs = readCompilerDirs(tsconfigPath);
+    const keys = Object.keys(report);
+    const codeFiles = changedFiles.map(toRepoPath).filter((f) => CODE_EXTENSIONS.includes(path.posix.extname(f)));
+
+    const result: PathMappingResult = { report: {}, untestedFiles: [], hasCodeChanges: codeFiles.length > 0 };
+    for (const file of codeFiles) {
+        const testKeys = findTestKeys(file, keys, rules, dirs);
+        if (testKeys.length === 0) {
+            if (!isTestFile(file)) {
+                result.untestedFiles.push(file);
+            }
+            continue;
+        }
+        for (const key of testKeys) {
+            result.report[key] = report[key];
+        }
+        logger.info(`Mapped ${file} → ${testKeys.join(', ')}`);
+    }
+    return result;
+}
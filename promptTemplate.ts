@@ -0,0 +1,114 @@
+/**
+ * Prompt Templates
+ * Loads the analysis prompts, preferring the consuming repository's overrides, and renders their variables and partials
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { logger } from 'OpenRouterAICore/pino';
+
+/**
+ * Prompts bundled with the action
+ */
+const BUNDLED_PROMPT_DIR = path.join(__dirname, 'prompts');
+
+/**
+ * Partial name prefix that always loads the bundled prompt, so an override can extend the prompt it replaces
+ */
+const BUILTIN_PREFIX = 'builtin/';
+
+/**
+ * Maximum nesting of partials, which also stops partials that include themselves
+ */
+const MAX_PARTIAL_DEPTH = 10;
+
+/**
+ * Placeholders of the earlier prompt format and the variables they stand for
+ */
+const LEGACY_PLACEHOLDERS: Record<string, string> = {
+    PLACEHOLDER: 'story',
+    REPORT: 'report',
+    ERRORS: 'errors',
+};
+
+/**
+ * Template tokens: an escaped `\{{`, a `{{ variable }}`, a `{{> partial }}` or a legacy `##NAME##` placeholder
+ */
+const TOKEN_PATTERN = /\\\{\{|\{\{\s*(>)?\s*([\w./-]+)\s*\}\}|##([A-Z]+)##/g;
+
+/**
+ * Resolves the file of a prompt or partial: the repository's prompt directory first, then the bundled prompts
+ * @param name - Prompt name without `.txt`, e.g. `GenerateTestCasesReport_API` or `partials/AnalysisSchema`
+ * @param promptDir - Prompt directory of the consuming repository; empty to use the bundled prompts only
+ * @returns Absolute path of the prompt file
+ * @throws Error when the name is invalid or no such prompt exists
+ */
+export function resolvePromptPath(name: string, promptDir: string): string {
+    if (name.split('/').includes('..')) {
+        throw new Error(`Invalid prompt name: ${name}`);
+    }
+    if (name.startsWith(BUILTIN_PREFIX)) {
+        return resolvePromptPath(name.slice(BUILTIN_PREFIX.length), '');
+    }
+
+    const candidates = [promptDir, BUNDLED_PROMPT_DIR].filter(Boolean).map((dir) => path.resolve(dir, `${name}.txt`));
+    const found = candidates.find((candidate) => fs.existsSync(candidate));
+    if (!found) {
+        throw new Error(`Prompt ${name} not found in ${candidates.join(' or ')}`);
+    }
+    return found;
+}
+
+/**
+ * Renders a template. Variable values are inserted verbatim and never parsed again, so JSON reports and code
+ * keep their braces; `\{{` writes a literal `{{`.
+ * @param source - Template text
+ * @param variables - Values of the `{{ name }}` variables
+ * @param loadPartial - Returns the template text of a `{{> name }}` partial
+ * @param depth - Partial nesting of the template
+ * @returns Rendered text
+ * @throws Error for unknown variables and partials nested too deeply
+ */
+export function renderTemplate(
+    source: string,
+    variables: Record<string, string>,
+    loadPartial: (name: string) => string,
+    depth = 0,
+): string {
+    if (depth > MAX_PARTIAL_DEPTH) {
+        throw new Error(`Prompt partials are nested more than ${MAX_PARTIAL_DEPTH} levels deep`);
+    }
+    return source.replace(TOKEN_PATTERN, (token, partial?: string, name?: string, legacy?: string) => {
+        if (token === '\\{{') {
+            return '{{';
+        }
+        if (legacy) {
+            const variable = LEGACY_PLACEHOLDERS[legacy];
+            return variable && variable in variables ? variables[variable] : token;
+        }
+        if (partial) {
+            return renderTemplate(loadPartial(name), variables, loadPartial, depth + 1);
+        }
+        if (!(name in variables)) {
+            throw new Error(`Unknown prompt variable "${name}", expected one of: ${Object.keys(variables).join(', ')}`);
+        }
+        return variables[name];
+    });
+}
+
+/**
+ * Loads and renders a prompt with its partials
+ * @param name - Prompt name without `.txt`
+ * @param variables - Values of the template variables
+ * @param promptDir - Prompt directory of the consuming repository; empty to use the bundled prompts only
+ * @returns Rendered prompt
+ */
+export function renderPrompt(name: string, variables: Record<string, string>, promptDir: string): string {
+    const load = (promptName: string): string =>
+        fs.readFileSync(resolvePromptPath(promptName, promptDir), 'utf8').replace(/\r?\n$/, '');
+    const promptPath = resolvePromptPath(name, promptDir);
+    if (!promptPath.startsWith(BUNDLED_PROMPT_DIR)) {
+        logger.info(`Using prompt override ${promptPath}`);
+    }
+    return renderTemplate(fs.readFileSync(promptPath, 'utf8'), variables, load);
+}
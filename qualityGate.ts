@@ -0,0 +1,172 @@
+/**
+ * Quality Gate
+ * Fails the run when the analysis breaches the configured score, missing case, static analysis or coverage thresholds
+ */
+
+import { formatScore } from './formatting';
+import type {
+    AnalysisRun,
+    EnvironmentConfig,
+    QualityGateCheck,
+    QualityGateResult,
+    QualityMetrics,
+    QualityThresholds,
+} from './types';
+
+/**
+ * Parses an optional numeric threshold
+ * @param name - Setting name, for the error message
+ * @param value - Setting value; empty disables the check
+ * @param max - Largest accepted value
+ * @returns Threshold, or null when the setting is empty
+ * @throws Error for values that are not a number between 0 and `max`
+ */
+function parseThreshold(name: string, value: string, max: number): number | null {
+    if (!value || value.trim() === '') {
+        return null;
+    }
+    const threshold = Number(value);
+    if (!Number.isFinite(threshold) || threshold < 0 || threshold > max) {
+        throw new Error(`${name} must be a number between 0 and ${max}, got "${value}"`);
+    }
+    return threshold;
+}
+
+/**
+ * Reads the quality gate thresholds
+ * @param settings - Environment configuration
+ * @returns Thresholds, null for the checks that are not configured
+ * @throws Error for invalid thresholds
+ */
+export function getQualityThresholds(settings: EnvironmentConfig): QualityThresholds {
+    return {
+        minScore: parseThreshold('MIN_SCORE', settings.MIN_SCORE, 10),
+        maxMissingCases: parseThreshold('MAX_MISSING_CASES', settings.MAX_MISSING_CASES, Number.MAX_SAFE_INTEGER),
+        minStaticScore: parseThreshold('MIN_STATIC_SCORE', settings.MIN_STATIC_SCORE, 10),
+        minLineCoverage: parseThreshold('MIN_LINE_COVERAGE', settings.MIN_LINE_COVERAGE, 100),
+    };
+}
+
+/**
+ * Collects the metrics the quality gate checks. With several valid analyses the consensus decides,
+ * so a case only one model reports as missing does not fail the run.
+ * @param run - Analysis run
+ * @returns Score, missing cases, static analysis score and coverage of the run
+ */
+export function getQualityMetrics(run: AnalysisRun): QualityMetrics {
+    const result = run.modelResponses.find((r) => r.result)?.result ?? null;
+    return {
+        score: run.consensus ? run.consensus.median : (result?.score ?? null),
+        missingCount: run.consensus ? run.consensus.agreedMissing.length : (result?.missing.length ?? null),
+        staticScore: run.smellReport.score,
+        coverage: Object.values(run.reportPayload.coverage),
+        coverageFound: run.coverageFound,
+        uncoveredFiles: run.uncoveredFiles,
+    };
+}
+
+/**
+ * Combines the metrics of several ticket analyses, so every ticket has to meet the thresholds:
+ * the lowest scores, the missing cases of all tickets and the coverage of every analysed file.
+ * A ticket without a valid analysis leaves the score and missing cases unknown, which fails their checks.
+ * @param metrics - Metrics of each ticket
+ * @returns Combined metrics
+ */
+export function combineQualityMetrics(metrics: QualityMetrics[]): QualityMetrics {
+    const scores = metrics.map((m) => m.score);
+    const missing = metrics.map((m) => m.missingCount);
+    const coverage = new Map(metrics.flatMap((m) => m.coverage).map((c) => [c.file, c]));
+    return {
+        score: scores.includes(null) ? null : Math.min(...scores),
+        missingCount: missing.includes(null) ? null : missing.reduce((total, count) => total + count, 0),
+        staticScore: Math.min(...metrics.map((m) => m.staticScore)),
+        coverage: [...coverage.values()],
+        coverageFound: metrics.every((m) => m.coverageFound),
+        uncoveredFiles: [...new Set(metrics.flatMap((m) => m.uncoveredFiles))].filter((file) => !coverage.has(file)),
+    };
+}
+
+/**
+ * Checks the metrics against the configured thresholds
+ * @param metrics - Metrics of the run
+ * @param thresholds - Configured thresholds
+ * @returns Outcome of every configured check
+ */
+export function evaluateQualityGate(metrics: QualityMetrics, thresholds: QualityThresholds): QualityGateResult {
+    const checks: QualityGateCheck[] = [];
+
+    if (thresholds.minScore !== null) {
+        checks.push(
+            metrics.score === null
+                ? { name: 'Score', passed: false, message: 'no model returned a valid analysis' }
+                : {
+                      name: 'Score',
+                      passed: metrics.score >= thresholds.minScore,
+                      message: `${formatScore(metrics.score)} (minimum ${formatScore(thresholds.minScore)})`,
+                  },
+        );
+    }
+    if (thresholds.maxMissingCases !== null) {
+        checks.push(
+            metrics.missingCount === null
+                ? { name: 'Missing test cases', passed: false, message: 'no model returned a valid analysis' }
+                : {
+                      name: 'Missing test cases',
+                      passed: metrics.missingCount <= thresholds.maxMissingCases,
+                      message: `${metrics.missingCount} (maximum ${thresholds.maxMissingCases})`,
+                  },
+        );
+    }
+    if (thresholds.minStaticScore !== null) {
+        checks.push({
+            name: 'Static analysis score',
+            passed: metrics.staticScore >= thresholds.minStaticScore,
+            message: `${formatScore(metrics.staticScore)} (minimum ${formatScore(thresholds.minStaticScore)})`,
+        });
+    }
+    if (thresholds.minLineCoverage !== null) {
+        // Changed source files under the coverage roots but missing from the report count as uncovered
+        const below = [
+            ...metrics.coverage.filter((c) => c.lines < thresholds.minLineCoverage).map((c) => `${c.file} ${c.lines}%`),
+            ...metrics.uncoveredFiles.map((file) => `${file} no coverage`),
+        ];
+        checks.push(
+            !metrics.coverageFound
+                ? { name: 'Line coverage', passed: false, message: 'no coverage report found' }
+                : {
+                      name: 'Line coverage',
+                      passed: below.length === 0,
+                      message:
+                          below.length === 0
+                              ? metrics.coverage.length === 0
+                                  ? 'no changed source files'
+                                  : `every changed file has at least ${thresholds.minLineCoverage}%`
+                              : `${below.join(', ')} (minimum ${thresholds.minLineCoverage}%)`,
+                  },
+        );
+    }
+
+    return { passed: checks.every((check) => check.passed), checks };
+}
+
+/**
+ * Renders the quality gate for the PR comment
+ * @param gate - Quality gate outcome
+ * @returns HTML formatted summary, or an empty string when no threshold is configured
+ */
+export function getQualityGateSummary(gate: QualityGateResult): string {
+    if (gate.checks.length === 0) {
+        return '';
+    }
+    const items = gate.checks.map((check) => `<li>${check.passed ? '✅' : '❌'} ${check.name}: ${check.message}</li>`);
+    return `\n<b>Quality Gate:-</b> ${gate.passed ? '✅ Passed' : '❌ Failed'}<ul>${items.join('')}</ul>`;
+}
+
+/**
+ * Describes the failed checks for the step log
+ * @param gate - Quality gate outcome
+ * @returns One line per failed check
+ */
+export function getQualityGateFailures(gate: QualityGateResult): string[] {
+    return gate.checks.filter((check) => !check.passed).map((check) => `${check.name}: ${check.message}`);
+}
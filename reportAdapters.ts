@@ -0,0 +1,332 @@
+/**
+ * Test Report Adapters
+ * Normalizes the supported test report formats into the per-file test map used in the prompt
+ */
+
+import fs from 'fs';
+import path from 'path';
+import fg from 'fast-glob';
+import { XMLParser } from 'fast-xml-parser';
+import { GetReportFileContent } from 'OpenRouterAICore/thirdPartyUtils';
+import { logger } from 'OpenRouterAICore/pino';
+import { escapeHtml } from './formatting';
+import type { ModelResponse, TestCaseResult, TestReport, TestStatus } from './types';
+
+/**
+ * Supported report formats
+ */
+export type ReportFormat = 'flat-json' | 'junit-xml' | 'jest-json' | 'vitest-json';
+
+/**
+ * Separator used to print the describe-block hierarchy of a test
+ */
+export const SUITE_SEPARATOR = ' > ';
+
+/**
+ * Maximum length of a failure message kept in the report
+ */
+const MAX_FAILURE_MESSAGE_LENGTH = 300;
+
+/**
+ * Statuses of the collected reports that do not count as passing coverage
+ */
+const NON_PASSING_STATUSES: TestStatus[] = ['failed', 'pending', 'skipped'];
+
+/**
+ * Resolves the configured report path into the list of report files.
+ * Glob patterns are expanded relative to the working directory.
+ * @param reportPath - Report file path or glob pattern
+ * @returns Absolute paths of the matched report files
+ */
+export async function resolveReportFiles(reportPath: string): Promise<string[]> {
+    const cwd = process.cwd();
+    if (!fg.isDynamicPattern(reportPath)) {
+        return [path.resolve(cwd, reportPath)];
+    }
+    const files = await fg(reportPath, { cwd, absolute: true, onlyFiles: true });
+    return files.sort();
+}
+
+/**
+ * Detects the format of a report from its extension and content.
+ * Jest `--json` and the Vitest JSON reporter share the same layout;
+ * Vitest adds a `meta` object to every assertion result.
+ * @param filePath - Report file path
+ * @param content - Raw report content
+ * @returns Detected report format
+ */
+export function detectReportFormat(filePath: string, content: string): ReportFormat {
+    if (path.extname(filePath).toLowerCase() === '.xml') {
+        return 'junit-xml';
+    }
+    const json = JSON.parse(content);
+    if (!Array.isArray(json?.testResults)) {
+        return 'flat-json';
+    }
+    const isVitest = json.testResults.some((result: any) =>
+        (result.assertionResults || []).some((assertion: any) => 'meta' in assertion),
+    );
+    return isVitest ? 'vitest-json' : 'jest-json';
+}
+
+/**
+ * Appends the tests of one report to another, keeping every file key
+ */
+function mergeReports(target: TestReport, source: TestReport): TestReport {
+    for (const [file, tests] of Object.entries(source)) {
+        target[file] = (target[file] || []).concat(tests);
+    }
+    return target;
+}
+
+/**
+ * Trims a failure message to its first lines so stack traces do not flood the prompt
+ */
+function toFailureMessage(message: unknown): string | undefined {
+    const text = Array.isArray(message) ? message.join('\n') : String(message ?? '');
+    const trimmed = text.trim();
+    if (!trimmed) {
+        return undefined;
+    }
+    return trimmed.length > MAX_FAILURE_MESSAGE_LENGTH ? trimmed.slice(0, MAX_FAILURE_MESSAGE_LENGTH) + '…' : trimmed;
+}
+
+/**
+ * Parses the flat `{ file: [tests] }` JSON written by the bundled collectors.
+ * Entries are either typed test results or, for older collectors, bare titles whose status is unknown.
+ * @param content - Raw report content
+ * @returns Per-file test map
+ */
+export function parseFlatJsonReport(content: string): TestReport {
+    const json = JSON.parse(content);
+    const report: TestReport = {};
+    for (const [file, tests] of Object.entries(json)) {
+        report[file] = (Array.isArray(tests) ? tests : [tests]).map((test): TestCaseResult =>
+            typeof test === 'object' && test !== null
+                ? {
+                      title: String(test.title ?? ''),
+                      suitePath: Array.isArray(test.suitePath) ? test.suitePath.map(String) : [],
+                      status: test.status ?? 'unknown',
+                      duration: test.duration,
+                      failureMessage: toFailureMessage(test.failureMessage),
+                  }
+                : { title: String(test), suitePath: [], status: 'unknown' },
+        );
+    }
+    return report;
+}
+
+/**
+ * Builds a readable test title from the JUnit `classname` and `name` attributes.
+ * Reporters disagree on what each attribute holds, so the longer one wins when
+ * one already contains the other.
+ */
+function getJUnitTestTitle(classname: string, name: string): string {
+    if (!classname || name.includes(classname)) {
+        return name;
+    }
+    if (classname.includes(name)) {
+        return classname;
+    }
+    return `${classname} ${name}`;
+}
+
+/**
+ * Reads the outcome of a JUnit `testcase` element from its child elements
+ */
+function getJUnitTestResult(testCase: any): Pick<TestCaseResult, 'status' | 'failureMessage'> {
+    const failure = testCase.failure ?? testCase.error;
+    if (failure !== undefined) {
+        const detail = typeof failure === 'object' ? failure.message || failure['#text'] : failure;
+        return { status: 'failed', failureMessage: toFailureMessage(detail) };
+    }
+    if (testCase.skipped !== undefined) {
+        return { status: 'skipped' };
+    }
+    return { status: 'passed' };
+}
+
+/**
+ * Recursively collects test cases from a JUnit `testsuite` element
+ */
+function collectJUnitSuite(suite: any, report: TestReport, suitePath: string[], inheritedFile?: string): void {
+    const suiteFile: string | undefined = suite.file || inheritedFile;
+    const currentPath = suite.name && suite.name !== suiteFile ? [...suitePath, String(suite.name)] : suitePath;
+
+    for (const testCase of suite.testcase || []) {
+        const name = String(testCase.name ?? '').trim();
+        const classname = String(testCase.classname ?? '').trim();
+        const file = String(testCase.file || suiteFile || classname || suite.name || 'unknown').trim();
+        const time = parseFloat(testCase.time);
+
+        report[file] = report[file] || [];
+        report[file].push({
+            title: getJUnitTestTitle(classname, name),
+            suitePath: currentPath,
+            duration: isNaN(time) ? undefined : Math.round(time * 1000),
+            ...getJUnitTestResult(testCase),
+        });
+    }
+
+    for (const child of suite.testsuite || []) {
+        collectJUnitSuite(child, report, currentPath, suiteFile);
+    }
+}
+
+/**
+ * Parses a JUnit XML report as written by mocha-junit-reporter,
+ * karma-junit-reporter or jest-junit.
+ * Tests are keyed by the `file` attribute when the reporter writes one,
+ * falling back to the class name and then the suite name.
+ * @param content - Raw XML content
+ * @returns Per-file test map
+ */
+export function parseJUnitReport(content: string): TestReport {
+    const parser = new XMLParser({
+        ignoreAttributes: false,
+        attributeNamePrefix: '',
+        isArray: (name) => name === 'testsuite' || name === 'testcase',
+    });
+    const xml = parser.parse(content);
+    const report: TestReport = {};
+
+    const root = xml.testsuites || xml;
+    for (const suite of root.testsuite || []) {
+        collectJUnitSuite(suite, report, []);
+    }
+    return report;
+}
+
+/**
+ * Maps Jest/Vitest assertion statuses onto the report statuses
+ */
+function getJestStatus(status: string): TestStatus {
+    switch (status) {
+        case 'passed':
+        case 'failed':
+        case 'pending':
+            return status;
+        case 'skipped':
+        case 'todo':
+        case 'disabled':
+            return 'skipped';
+        default:
+            return 'unknown';
+    }
+}
+
+/**
+ * Parses the Jest `--json` output or the Vitest JSON reporter output.
+ * Test files are keyed relative to the working directory and each test
+ * keeps its `ancestorTitles` as suite path so describe blocks stay distinguishable.
+ * @param content - Raw report content
+ * @returns Per-file test map
+ */
+export function parseJestReport(content: string): TestReport {
+    const json = JSON.parse(content);
+    const report: TestReport = {};
+
+    for (const result of json.testResults || []) {
+        const file = path.relative(process.cwd(), String(result.name || 'unknown'));
+        report[file] = report[file] || [];
+        for (const assertion of result.assertionResults || []) {
+            report[file].push({
+                title: String(assertion.title ?? ''),
+                suitePath: (assertion.ancestorTitles || []).map(String),
+                status: getJestStatus(assertion.status),
+                duration: typeof assertion.duration === 'number' ? Math.round(assertion.duration) : undefined,
+                failureMessage: toFailureMessage(assertion.failureMessages),
+            });
+        }
+    }
+    return report;
+}
+
+/**
+ * Reads a single report file and converts it into the per-file test map
+ * @param filePath - Absolute report file path
+ * @returns Per-file test map
+ */
+async function loadReportFile(filePath: string): Promise<TestReport> {
+    const content: string =
+        path.extname(filePath).toLowerCase() === '.xml'
+            ? fs.readFileSync(filePath, 'utf8')
+            : await GetReportFileContent(filePath);
+    const format = detectReportFormat(filePath, content);
+    logger.info(`Reading ${format} report: ${filePath}`);
+
+    switch (format) {
+        case 'junit-xml':
+            return parseJUnitReport(content);
+        case 'jest-json':
+        case 'vitest-json':
+            return parseJestReport(content);
+        default:
+            return parseFlatJsonReport(content);
+    }
+}
+
+/**
+ * Loads every report matched by the configured path and merges them
+ * into a single per-file test map
+ * @param reportPath - Report file path or glob pattern, relative to the working directory
+ * @returns Merged per-file test map
+ * @throws Error if no report file matches the path
+ */
+export async function loadTestReport(reportPath: string): Promise<TestReport> {
+    const files = await resolveReportFiles(reportPath);
+    if (files.length === 0) {
+        throw new Error(`No report file matches: ${reportPath}`);
+    }
+
+    const report: TestReport = {};
+    for (const file of files) {
+        mergeReports(report, await loadReportFile(file));
+    }
+    return report;
+}
+
+/**
+ * Lists the failed, pending and skipped tests of a report
+ * @param report - Per-file test map
+ * @returns Non-passing tests with their file
+ */
+export function getNonPassingTests(report: TestReport): Array<{ file: string; test: TestCaseResult }> {
+    return Object.entries(report).flatMap(([file, tests]) =>
+        tests.filter((test) => NON_PASSING_STATUSES.includes(test.status)).map((test) => ({ file, test })),
+    );
+}
+
+/**
+ * Whether a model listed the test among the tests backing one of its fully covered cases
+ */
+function isCountedAsCoverage(test: TestCaseResult, modelResponses: ModelResponse[]): boolean {
+    const fullTitle = [...test.suitePath, test.title].join(SUITE_SEPARATOR).toLowerCase();
+    const title = test.title.trim().toLowerCase();
+    return modelResponses.some((response) =>
+        (response.result?.fullyCovered ?? []).some((item) =>
+            item.tests.some((name) => [title, fullTitle].includes(name.trim().toLowerCase())),
+        ),
+    );
+}
+
+/**
+ * Calls out the failed, pending and skipped tests for the PR summary.
+ * Tests a model listed under its fully covered cases were treated as coverage by that model.
+ * @param report - Filtered per-file test map sent to the model
+ * @param modelResponses - Validated model responses
+ * @returns HTML formatted list, or an empty string when every test passed
+ */
+export function getTestStatusSummary(report: TestReport, modelResponses: ModelResponse[]): string {
+    const nonPassing = getNonPassingTests(report);
+    if (nonPassing.length === 0) {
+        return '';
+    }
+    const items = nonPassing.map(({ file, test }) => {
+        const counted = isCountedAsCoverage(test, modelResponses) ? ' ⚠️ counted as coverage by the model' : '';
+        const reason = test.failureMessage ? `: ${escapeHtml(test.failureMessage.split('\n')[0])}` : '';
+        const title = escapeHtml([...test.suitePath, test.title].join(SUITE_SEPARATOR));
+        return `<li>[${test.status}] <code>${file}</code> ${title}${reason}${counted}</li>`;
+    });
+    return `\n<details><summary>Failing or skipped tests (${nonPassing.length})</summary><ul>${items.join('')}</ul></details>`;
+}
@@ -0,0 +1,230 @@
+/**
+ * Report Chunking
+ * Splits the report payload by package and file so every prompt fits the model's token budget
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { logger } from 'OpenRouterAICore/pino';
+import { estimateTokens } from './tokenBudget';
+import type { ReportChunkPlan, ReportPayload } from './types';
+
+/**
+ * Maximum length of a failure message kept in a summarised test entry
+ */
+const SUMMARY_MESSAGE_LENGTH = 80;
+
+/**
+ * Payload sections keyed by file path
+ */
+const FILE_SECTIONS = ['tests', 'coverage', 'mutation', 'testBodies'] as const;
+
+/**
+ * Part of the payload that is kept together in one prompt
+ */
+interface ReportUnit {
+    /** Files of the unit */
+    files: string[];
+    /** Payload restricted to those files */
+    payload: ReportPayload;
+    /** Estimated tokens of the serialized payload */
+    tokens: number;
+}
+
+/**
+ * Creates a payload without any data
+ */
+function emptyPayload(): ReportPayload {
+    return { tests: {}, coverage: {}, mutation: {}, testBodies: {}, untestedFiles: [] };
+}
+
+/**
+ * Serializes the payload for the `##REPORT##` placeholder.
+ * The supporting analysis data (coverage, mutants, test bodies, untested files) is placed next to the tests;
+ * the plain test map is kept as-is when there is nothing to add.
+ * @param payload - Report payload
+ * @returns JSON for the prompt
+ */
+export function serializeReportPayload(payload: ReportPayload): string {
+    const { tests, ...extras } = payload;
+    const sections = Object.entries(extras).filter(([, value]) => Object.keys(value).length > 0);
+    if (sections.length === 0) {
+        return JSON.stringify(tests, null, 2);
+    }
+    return JSON.stringify({ tests, ...Object.fromEntries(sections) }, null, 2);
+}
+
+/**
+ * Lists every file referenced by the payload, in a stable order
+ */
+function getPayloadFiles(payload: ReportPayload): string[] {
+    const files = FILE_SECTIONS.flatMap((section) => Object.keys(payload[section]));
+    return [...new Set([...files, ...payload.untestedFiles])].sort();
+}
+
+/**
+ * Restricts the payload to the given files
+ */
+function pickFiles(payload: ReportPayload, files: string[]): ReportPayload {
+    const picked = emptyPayload();
+    for (const file of files) {
+        for (const section of FILE_SECTIONS) {
+            if (payload[section][file]) {
+                (picked[section] as Record<string, unknown>)[file] = payload[section][file];
+            }
+        }
+        if (payload.untestedFiles.includes(file)) {
+            picked.untestedFiles.push(file);
+        }
+    }
+    return picked;
+}
+
+/**
+ * Finds the package a file belongs to: the closest directory with a `package.json`
+ * @param file - Repository relative file path
+ * @returns Repository relative package directory, `.` for the root package
+ */
+export function findPackageDir(file: string): string {
+    let dir = path.posix.dirname(file);
+    while (dir !== '.' && dir !== '/') {
+        if (fs.existsSync(path.resolve(dir, 'package.json'))) {
+            return dir;
+        }
+        dir = path.posix.dirname(dir);
+    }
+    return '.';
+}
+
+/**
+ * Shrinks a unit so it may fit the budget: test bodies are dropped, tests keep their title and status,
+ * and coverage and mutation keep their percentages only
+ */
+function summarizeUnit(unit: ReportUnit): ReportUnit {
+    const payload = emptyPayload();
+    for (const [file, tests] of Object.entries(unit.payload.tests)) {
+        payload.tests[file] = tests.map((test) => ({
+            title: test.title,
+            suitePath: test.suitePath,
+            status: test.status,
+            failureMessage: test.failureMessage?.split('\n')[0].slice(0, SUMMARY_MESSAGE_LENGTH),
+        }));
+    }
+    for (const [file, coverage] of Object.entries(unit.payload.coverage)) {
+        payload.coverage[file] = { ...coverage, uncoveredLines: [], uncoveredBranches: [] };
+    }
+    for (const [file, mutation] of Object.entries(unit.payload.mutation)) {
+        payload.mutation[file] = { ...mutation, survivors: [] };
+    }
+    payload.untestedFiles = unit.payload.untestedFiles;
+    return { files: unit.files, payload, tokens: estimateTokens(serializeReportPayload(payload)) };
+}
+
+/**
+ * Creates a unit from a set of files of the payload
+ */
+function toUnit(payload: ReportPayload, files: string[]): ReportUnit {
+    const picked = pickFiles(payload, files);
+    return { files, payload: picked, tokens: estimateTokens(serializeReportPayload(picked)) };
+}
+
+/**
+ * Merges unit payloads into one prompt payload
+ */
+function mergeUnits(units: ReportUnit[]): ReportPayload {
+    const merged = emptyPayload();
+    for (const { payload } of units) {
+        for (const section of FILE_SECTIONS) {
+            Object.assign(merged[section], payload[section]);
+        }
+        merged.untestedFiles.push(...payload.untestedFiles);
+    }
+    return merged;
+}
+
+/**
+ * Splits the payload into prompts that fit the budget.
+ * Files of one package stay together when the package fits; otherwise the package is split by file.
+ * A file that does not fit on its own is summarised, and dropped when even the summary is too large.
+ * @param payload - Full report payload
+ * @param budget - Prompt token budget of the model
+ * @param promptTokens - Tokens of the prompt without the report
+ * @returns Chunk payloads and the fate of every file
+ */
+export function planReportChunks(payload: ReportPayload, budget: number, promptTokens: number): ReportChunkPlan {
+    const available = budget - promptTokens;
+    const files = getPayloadFiles(payload);
+    const plan: ReportChunkPlan = { chunks: [], analysed: [], summarised: [], dropped: [] };
+
+    if (estimateTokens(serializeReportPayload(payload)) <= available) {
+        return { ...plan, chunks: [payload], analysed: files };
+    }
+
+    const packages = new Map<string, string[]>();
+    for (const file of files) {
+        const dir = findPackageDir(file);
+        packages.set(dir, [...(packages.get(dir) ?? []), file]);
+    }
+
+    const units: ReportUnit[] = [];
+    for (const packageFiles of packages.values()) {
+        const packageUnit = toUnit(payload, packageFiles);
+        if (packageUnit.tokens <= available) {
+            units.push(packageUnit);
+            plan.analysed.push(...packageFiles);
+            continue;
+        }
+        for (const file of packageFiles) {
+            const unit = toUnit(payload, [file]);
+            if (unit.tokens <= available) {
+                units.push(unit);
+                plan.analysed.push(file);
+                continue;
+            }
+            const summary = summarizeUnit(unit);
+            if (summary.tokens <= available) {
+                units.push(summary);
+                plan.summarised.push(file);
+            } else {
+                plan.dropped.push(file);
+            }
+        }
+    }
+
+    let current: ReportUnit[] = [];
+    let currentTokens = 0;
+    for (const unit of units) {
+        if (current.length > 0 && currentTokens + unit.tokens > available) {
+            plan.chunks.push(mergeUnits(current));
+            current = [];
+            currentTokens = 0;
+        }
+        current.push(unit);
+        currentTokens += unit.tokens;
+    }
+    if (current.length > 0) {
+        plan.chunks.push(mergeUnits(current));
+    }
+    return plan;
+}
+
+/**
+ * Logs how the report was split for a model, and which files were summarised or dropped
+ * @param modelName - Model the plan was made for
+ * @param plan - Chunk plan
+ */
+export function logChunkPlan(modelName: string, plan: ReportChunkPlan): void {
+    if (plan.chunks.length > 1) {
+        console.log(`✂️ Report split into ${plan.chunks.length} prompts for ${modelName}`);
+        plan.chunks.forEach((chunk, i) =>
+            logger.info(`${modelName} prompt ${i + 1}/${plan.chunks.length}: ${getPayloadFiles(chunk).join(', ')}`),
+        );
+    }
+    logger.info(`${modelName} analysed: ${plan.analysed.join(', ') || 'none'}`);
+    if (plan.summarised.length > 0) {
+        console.log(`⚠️ Summarised for ${modelName} (test bodies and details left out): ${plan.summarised.join(', ')}`);
+    }
+    if (plan.dropped.length > 0) {
+        console.log(`❌ Dropped for ${modelName} (too large for the token budget): ${plan.dropped.join(', ')}`);
+    }
+}
@@ -0,0 +1,106 @@
+/**
+ * Analysis Cache
+ * Reuses the analysis of an earlier run when the story, the filtered report, the prompt, the token budget and the model
+ * are unchanged
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { logger } from 'OpenRouterAICore/pino';
+import { getCurrentRun } from './githubContext';
+import type { CacheEntry, CacheKeyInput, ModelResponse, ReportPayload } from './types';
+
+/**
+ * Serializes the parts of a report payload that decide the analysis: the suite, title and status of each test,
+ * the test bodies, the coverage, the mutation scores with their surviving mutants and the untested files.
+ * Durations and failure messages change on every run and are left out.
+ * @param payload - Report payload, after filtering to the changed files
+ * @returns Stable JSON for the cache key
+ */
+export function getCacheReport(payload: ReportPayload): string {
+    const tests = Object.fromEntries(
+        Object.entries(payload.tests).map(([file, results]) => [
+            file,
+            results.map(({ suitePath, title, status }) => ({ suitePath, title, status })),
+        ]),
+    );
+    const testBodies = Object.fromEntries(
+        Object.entries(payload.testBodies).map(([file, extracted]) => [
+            file,
+            extracted.map(({ suitePath, title, body }) => ({ suitePath, title, body })),
+        ]),
+    );
+    return JSON.stringify({
+        tests,
+        testBodies,
+        coverage: payload.coverage,
+        mutation: payload.mutation,
+        untestedFiles: payload.untestedFiles,
+    });
+}
+
+/**
+ * Computes the content address of a model's analysis.
+ * Every part is length-prefixed so that moving text from one part to another changes the key.
+ * @param input - Story, report, prompt template, token budget and model
+ * @returns Hex encoded SHA-256 hash
+ */
+export function getCacheKey(input: CacheKeyInput): string {
+    const hash = crypto.createHash('sha256');
+    for (const part of [input.story, input.report, input.promptTemplate, input.tokenBudget, input.model]) {
+        hash.update(`${Buffer.byteLength(part)}:${part}`);
+    }
+    return hash.digest('hex');
+}
+
+/**
+ * Path of the cache file for a key
+ */
+function getEntryPath(cacheDir: string, key: string): string {
+    return path.join(cacheDir, `${key}.json`);
+}
+
+/**
+ * Reads the cached analysis for a key
+ * @param cacheDir - Cache directory; empty when caching is disabled
+ * @param key - Cache key from `getCacheKey`
+ * @returns The cached response marked with the run that produced it, or null on a miss or an unreadable entry
+ */
+export function readCachedResponse(cacheDir: string, key: string): ModelResponse | null {
+    const entryPath = getEntryPath(cacheDir, key);
+    if (!cacheDir || !fs.existsSync(entryPath)) {
+        return null;
+    }
+    try {
+        const entry: CacheEntry = JSON.parse(fs.readFileSync(entryPath, 'utf8'));
+        if (entry.key !== key || !entry.response?.result) {
+            return null;
+        }
+        const { createdAt, commit, runUrl } = entry;
+        return { ...entry.response, reusedFrom: { createdAt, commit, runUrl } };
+    } catch (error) {
+        logger.warn(`Ignoring unreadable cache entry ${entryPath}`, error);
+        return null;
+    }
+}
+
+/**
+ * Stores a model's analysis for later runs. Failed and invalid analyses are not cached, so they are retried.
+ * @param cacheDir - Cache directory; empty when caching is disabled
+ * @param key - Cache key from `getCacheKey`
+ * @param response - Validated model response
+ */
+export function writeCachedResponse(cacheDir: string, key: string, response: ModelResponse): void {
+    if (!cacheDir || !response.result || response.error || response.reusedFrom) {
+        return;
+    }
+    try {
+        fs.mkdirSync(cacheDir, { recursive: true });
+        const entry: CacheEntry = { key, ...getCurrentRun(), response };
+        fs.writeFileSync(getEntryPath(cacheDir, key), JSON.stringify(entry, null, 2));
+    } catch (error) {
+        console.error(`Error writing the analysis cache of ${response.model}:`, error);
+        logger.error('Error writing analysis cache', error);
+    }
+}
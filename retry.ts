@@ -0,0 +1,206 @@
+/**
+ * Retry Layer
+ * Retries rate limited and transient failures of the OpenRouter, Jira, Confluence and GitHub calls
+ */
+
+import { logger } from 'OpenRouterAICore/pino';
+import { HTTP_STATUS, RETRY_BUDGET_MS, RETRY_CONFIG, type ApiSource } from './constants';
+
+/**
+ * Status codes worth retrying: rate limits, timeouts and temporary server errors
+ */
+const RETRYABLE_STATUSES: number[] = [
+    HTTP_STATUS.REQUEST_TIMEOUT,
+    HTTP_STATUS.TOO_MANY_REQUESTS,
+    HTTP_STATUS.INTERNAL_SERVER_ERROR,
+    HTTP_STATUS.BAD_GATEWAY,
+    HTTP_STATUS.SERVICE_UNAVAILABLE,
+    HTTP_STATUS.GATEWAY_TIMEOUT,
+];
+
+/**
+ * Network error codes of dropped, timed out and refused connections
+ */
+const RETRYABLE_NETWORK_ERRORS = ['ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET'];
+
+/**
+ * Network error codes of requests that never reached the server, as no connection was made
+ */
+const UNSENT_NETWORK_ERRORS = ['ECONNREFUSED', 'EAI_AGAIN'];
+
+/**
+ * Reset timestamps above this value are epoch milliseconds rather than epoch seconds
+ */
+const EPOCH_MS_THRESHOLD = 1e12;
+
+/**
+ * Reset values below this value are a number of seconds to wait rather than an epoch timestamp
+ */
+const EPOCH_SECONDS_THRESHOLD = 1e9;
+
+/**
+ * Time already spent waiting on retries, per API source
+ */
+const spentBudget = new Map<ApiSource, number>();
+
+/**
+ * Reads the HTTP status code from the error shapes thrown by axios, fetch wrappers and Octokit
+ * @param error - Thrown error
+ * @returns Status code, or undefined for network errors
+ */
+export function getStatusCode(error: any): number | undefined {
+    const status = error?.status || error?.statusCode || error?.response?.status;
+    if (status) {
+        return Number(status);
+    }
+    const message = error?.message || String(error);
+    if (message.includes(String(HTTP_STATUS.TOO_MANY_REQUESTS)) || message.toLowerCase().includes('rate limit')) {
+        return HTTP_STATUS.TOO_MANY_REQUESTS;
+    }
+    return undefined;
+}
+
+/**
+ * Reads a response header from a plain header object or a fetch `Headers` instance
+ */
+function getHeader(error: any, name: string): string | undefined {
+    const headers = error?.response?.headers ?? error?.headers;
+    if (!headers) {
+        return undefined;
+    }
+    if (typeof headers.get === 'function') {
+        return headers.get(name) ?? undefined;
+    }
+    const key = Object.keys(headers).find((k) => k.toLowerCase() === name);
+    return key ? String(headers[key]) : undefined;
+}
+
+/**
+ * Computes the wait the server asked for through `Retry-After` or the `X-RateLimit-*` headers
+ * @param error - Thrown error carrying the response headers
+ * @param now - Current time in milliseconds
+ * @returns Delay in milliseconds, or undefined when the server gave no hint
+ */
+export function getRateLimitDelay(error: any, now: number = Date.now()): number | undefined {
+    const retryAfter = getHeader(error, 'retry-after');
+    if (retryAfter) {
+        const seconds = Number(retryAfter);
+        if (Number.isFinite(seconds)) {
+            return Math.max(0, seconds * 1000);
+        }
+        const date = Date.parse(retryAfter);
+        if (!Number.isNaN(date)) {
+            return Math.max(0, date - now);
+        }
+    }
+
+    const remaining = getHeader(error, 'x-ratelimit-remaining');
+    const reset = Number(getHeader(error, 'x-ratelimit-reset'));
+    if (remaining === '0' && Number.isFinite(reset) && reset > 0) {
+        if (reset >= EPOCH_MS_THRESHOLD) {
+            return Math.max(0, reset - now);
+        }
+        if (reset >= EPOCH_SECONDS_THRESHOLD) {
+            return Math.max(0, reset * 1000 - now);
+        }
+        return reset * 1000;
+    }
+    return undefined;
+}
+
+/**
+ * Whether a failed call may succeed when repeated.
+ * GitHub reports secondary rate limits as 403 with rate limit headers, so those are retried too.
+ * @param error - Thrown error
+ * @returns True for rate limits, timeouts, temporary server errors and dropped connections
+ */
+export function isRetryable(error: any): boolean {
+    const status = getStatusCode(error);
+    if (status === undefined) {
+        return RETRYABLE_NETWORK_ERRORS.includes(error?.code ?? error?.cause?.code);
+    }
+    if (status === HTTP_STATUS.FORBIDDEN) {
+        return getRateLimitDelay(error) !== undefined;
+    }
+    return RETRYABLE_STATUSES.includes(status);
+}
+
+/**
+ * Whether a failed call was turned away before the server acted on it, so repeating a call that creates
+ * a resource cannot create it twice. Timeouts, server errors and dropped connections may come after the
+ * resource was created.
+ * @param error - Thrown error
+ * @returns True for rate limits and connections that were never made
+ */
+export function isRejectedUnprocessed(error: any): boolean {
+    const status = getStatusCode(error);
+    if (status === undefined) {
+        return UNSENT_NETWORK_ERRORS.includes(error?.code ?? error?.cause?.code);
+    }
+    if (status === HTTP_STATUS.FORBIDDEN) {
+        return getRateLimitDelay(error) !== undefined;
+    }
+    return status === HTTP_STATUS.TOO_MANY_REQUESTS;
+}
+
+/**
+ * Full-jitter exponential backoff: a random delay up to `BASE_DELAY_MS * 2^attempt`, capped at `MAX_DELAY_MS`
+ * @param attempt - Zero based retry number
+ * @returns Delay in milliseconds
+ */
+export function getBackoffDelay(attempt: number): number {
+    const ceiling = Math.min(RETRY_CONFIG.MAX_DELAY_MS, RETRY_CONFIG.BASE_DELAY_MS * 2 ** attempt);
+    return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Waits for the given number of milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Runs an API call, retrying rate limited and transient failures.
+ * The server's `Retry-After`/`X-RateLimit-Reset` hint is used when present, otherwise a jittered
+ * exponential backoff. Every source has a total waiting budget per run; once a retry would exceed it,
+ * the last error is rethrown so the caller's error reporting still applies.
+ * @param source - API being called, selects the retry budget
+ * @param label - Operation name for the logs
+ * @param call - Function performing the request
+ * @param idempotent - False for calls that create a resource, which are only repeated when rejected unprocessed
+ * @returns The call's result
+ * @throws The last error when it is not retryable, or the attempts or budget are exhausted
+ */
+export async function withRetry<T>(
+    source: ApiSource,
+    label: string,
+    call: () => Promise<T>,
+    idempotent: boolean = true,
+): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await call();
+        } catch (error) {
+            const retryable = idempotent ? isRetryable(error) : isRejectedUnprocessed(error);
+            if (!retryable || attempt + 1 >= RETRY_CONFIG.MAX_ATTEMPTS) {
+                throw error;
+            }
+
+            const delay = getRateLimitDelay(error) ?? getBackoffDelay(attempt);
+            const spent = spentBudget.get(source) ?? 0;
+            if (spent + delay > RETRY_BUDGET_MS[source]) {
+                logger.warn(`Retry budget of ${source} exhausted after ${spent}ms, giving up on ${label}`);
+                throw error;
+            }
+            spentBudget.set(source, spent + delay);
+
+            console.log(
+                `⏳ ${label} failed with ${getStatusCode(error) ?? 'a network error'} (${source}), ` +
+                    `retrying in ${(delay / 1000).toFixed(1)}s (attempt ${attempt + 2}/${RETRY_CONFIG.MAX_ATTEMPTS})`,
+            );
+            logger.warn(`Retrying ${label} against ${source} in ${delay}ms`);
+            await sleep(delay);
+        }
+    }
+}
@@ -0,0 +1,186 @@
+/**
+ * Score History
+ * Keeps the results of every run on a PR in a hidden payload of the PR comment, so each push can be
+ * compared with the previous one and with the first analysis
+ */
+
+import { logger } from 'OpenRouterAICore/pino';
+import { escapeHtml, formatScore } from './formatting';
+import { createGitHubClient, getCurrentRun } from './githubContext';
+import { withRetry } from './retry';
+import { API_SOURCE } from './constants';
+import type { QualityMetrics, ScoreHistoryEntry } from './types';
+
+/**
+ * Marker of the hidden history payload in the PR comment
+ */
+const HISTORY_MARKER = 'test-quality-history';
+
+/**
+ * Pattern of the hidden history payload
+ */
+const HISTORY_PATTERN = new RegExp(`<!-- ${HISTORY_MARKER}:(.*?) -->`, 's');
+
+/**
+ * Runs kept in the history; older runs are dropped, the first analysis is always kept
+ */
+const MAX_HISTORY_ENTRIES = 50;
+
+/**
+ * Columns of the trend and history tables
+ */
+const HISTORY_COLUMNS = [
+    { label: 'Score', value: (e: ScoreHistoryEntry) => e.score, format: formatScore },
+    { label: 'Missing cases', value: (e: ScoreHistoryEntry) => e.missingCount, format: String },
+    { label: 'Static score', value: (e: ScoreHistoryEntry) => e.staticScore, format: formatScore },
+    { label: 'Tests', value: (e: ScoreHistoryEntry) => e.testCount, format: String },
+] as const;
+
+/**
+ * Records the results of the current run
+ * @param metrics - Metrics of the run
+ * @param testCount - Number of tests analysed
+ * @returns History entry with the time, commit and link of the run
+ */
+export function createHistoryEntry(metrics: QualityMetrics, testCount: number): ScoreHistoryEntry {
+    return {
+        ...getCurrentRun(),
+        score: metrics.score,
+        missingCount: metrics.missingCount,
+        staticScore: metrics.staticScore,
+        testCount,
+    };
+}
+
+/**
+ * Reads the history payload of a PR comment
+ * @param body - Comment body
+ * @returns Recorded runs, oldest first; empty when the comment has no readable payload
+ */
+export function parseScoreHistory(body: string): ScoreHistoryEntry[] {
+    const match = HISTORY_PATTERN.exec(body);
+    if (!match) {
+        return [];
+    }
+    try {
+        const entries = JSON.parse(match[1]);
+        return Array.isArray(entries)
+            ? entries.filter((e) => e && typeof e.createdAt === 'string' && typeof e.staticScore === 'number')
+            : [];
+    } catch (error) {
+        logger.warn('Ignoring unreadable score history', error);
+        return [];
+    }
+}
+
+/**
+ * Adds the current run to the history. A re-run of the same commit replaces the earlier entry,
+ * so the trend compares pushes rather than attempts.
+ * @param history - Recorded runs, oldest first
+ * @param entry - Current run
+ * @returns Updated history, oldest first
+ */
+export function appendHistoryEntry(history: ScoreHistoryEntry[], entry: ScoreHistoryEntry): ScoreHistoryEntry[] {
+    const updated = [...history.filter((e) => !e.commit || e.commit !== entry.commit), entry];
+    return updated.length > MAX_HISTORY_ENTRIES
+        ? [updated[0], ...updated.slice(updated.length - MAX_HISTORY_ENTRIES + 1)]
+        : updated;
+}
+
+/**
+ * Serializes the history into a payload hidden in the rendered PR comment
+ * @param history - Recorded runs, oldest first
+ * @returns HTML comment holding the history
+ */
+export function renderHistoryPayload(history: ScoreHistoryEntry[]): string {
+    // `--` cannot appear inside an HTML comment, so it is escaped in the JSON strings
+    return `\n<!-- ${HISTORY_MARKER}:${JSON.stringify(history).replace(/--/g, '-\\u002d')} -->`;
+}
+
+/**
+ * Fetches the history stored in the action's comment on the PR
+ * @param issueNumber - PR number
+ * @returns Recorded runs, oldest first; empty for the first run
+ * @throws The GitHub error once the retries are exhausted
+ */
+export async function fetchScoreHistory(issueNumber: number): Promise<ScoreHistoryEntry[]> {
+    const { octokit, repository } = createGitHubClient();
+    const comments: Array<{ body?: string }> = await withRetry(API_SOURCE.GITHUB, 'Fetch PR comments', () =>
+        octokit.paginate(octokit.rest.issues.listComments, { ...repository, issue_number: issueNumber, per_page: 100 }),
+    );
+    const comment = [...comments].reverse().find((c) => c.body?.includes(`<!-- ${HISTORY_MARKER}:`));
+    return comment ? parseScoreHistory(comment.body) : [];
+}
+
+/**
+ * Formats the change of a metric between two runs
+ */
+function formatChange(current: number | null, earlier: number | null): string {
+    if (current === null || earlier === null) {
+        return '-';
+    }
+    const change = Math.round((current - earlier) * 10) / 10;
+    return change > 0 ? `+${change}` : change < 0 ? String(change) : '±0';
+}
+
+/**
+ * Short commit reference of a run
+ */
+function shortCommit(entry: ScoreHistoryEntry): string {
+    return entry.commit ? `<code>${escapeHtml(entry.commit.slice(0, 7))}</code>` : escapeHtml(entry.createdAt);
+}
+
+/**
+ * Renders the trend table for the PR comment: the current run and its change since the previous push
+ * and since the first analysis
+ * @param history - Recorded runs including the current one, oldest first
+ * @returns Markdown table, or an empty string for the first analysis of the PR
+ */
+export function getTrendSummary(history: ScoreHistoryEntry[]): string {
+    if (history.length < 2) {
+        return '';
+    }
+    const current = history[history.length - 1];
+    const previous = history[history.length - 2];
+    const first = history[0];
+
+    const row = (label: string, cells: string[]): string => `| ${label} | ${cells.join(' | ')} |`;
+    const value = (entry: ScoreHistoryEntry) =>
+        HISTORY_COLUMNS.map(({ value: get, format }) => (get(entry) === null ? '-' : format(get(entry))));
+    const change = (earlier: ScoreHistoryEntry) =>
+        HISTORY_COLUMNS.map(({ value: get }) => formatChange(get(current), get(earlier)));
+
+    const rows = [
+        row(`This push (${shortCommit(current)})`, value(current)),
+        row(`Since previous push (${shortCommit(previous)})`, change(previous)),
+    ];
+    if (first !== previous) {
+        rows.push(row(`Since first analysis (${shortCommit(first)})`, change(first)));
+    }
+    return [
+        `\n<b>Trend over ${history.length} runs:-</b>\n`,
+        `| | ${HISTORY_COLUMNS.map((c) => c.label).join(' | ')} |`,
+        `|---|${HISTORY_COLUMNS.map(() => '---').join('|')}|`,
+        ...rows,
+    ].join('\n');
+}
+
+/**
+ * Renders the history section of the Confluence page, newest run first
+ * @param history - Recorded runs including the current one, oldest first
+ * @returns HTML table of every run
+ */
+export function getHistoryPage(history: ScoreHistoryEntry[]): string {
+    const cell = (text: string): string => `<td>${text}</td>`;
+    const rows = [...history].reverse().map((entry) => {
+        const commit = entry.runUrl
+            ? `<a href="${escapeHtml(entry.runUrl)}">${shortCommit(entry)}</a>`
+            : shortCommit(entry);
+        const values = HISTORY_COLUMNS.map(({ value: get, format }) =>
+            cell(get(entry) === null ? '-' : format(get(entry))),
+        );
+        return `<tr>${cell(escapeHtml(entry.createdAt))}${cell(commit)}${values.join('')}</tr>`;
+    });
+    const header = ['Date', 'Commit', ...HISTORY_COLUMNS.map((c) => c.label)].map((h) => `<th>${h}</th>`).join('');
+    return `<h2>📈 History</h2><table><tr>${header}</tr>${rows.join('')}</table>`;
+}
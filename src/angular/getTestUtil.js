@@ -3,6 +3,13 @@ const output_file = './coverage/ut-results.json';
 const input_file_path = './karma-result.json';
 if (!fs.existsSync('coverage')) fs.mkdirSync('./coverage');
 
+const getStatus = (result) => {
+  if (result.skipped || result.pending || result.disabled) return 'skipped';
+  if (result.success === false) return 'failed';
+  if (result.success === true) return 'passed';
+  return 'unknown';
+};
+
 if (fs.existsSync(input_file_path)) {
   const karma_result_json = require(input_file_path);
   const output = {};
@@ -11,9 +18,17 @@ if (fs.existsSync(input_file_path)) {
       continue;
     }
     output[k.trim()] = output[k.trim()] || [];
-    const keys = Object.keys(karma_result_json[k]);
-    for (const v in keys) {
-      output[k.trim()].push(keys[v]);
+    const results = karma_result_json[k];
+    for (const key in results) {
+      const result = typeof results[key] === 'object' && results[key] !== null ? results[key] : {};
+      const log = Array.isArray(result.log) ? result.log.join('\n') : '';
+      output[k.trim()].push({
+        title: result.description || key,
+        suitePath: Array.isArray(result.suite) ? result.suite : [],
+        status: getStatus(result),
+        duration: result.time,
+        failureMessage: log || undefined,
+      });
     }
   }
   if (Object.keys(output).length == 0) {
@@ -0,0 +1,4 @@
+rm -rf node_modules ./coverage/ut-results.json
+npm install
+mkdir -p coverage
+npx jest --ci --json --outputFile=./coverage/ut-results.json
@@ -1,4 +1,4 @@
+# ACTION_DIR points at a checkout of this action (with its dependencies installed)
+ACTION_DIR=${ACTION_DIR:-../check-quality-of-unit-testcases}
 npm install
-node updateForReport.js update-mocha
-npm run github:coverage
-node updateForReport.js collect-report
\ No newline at end of file
+TEST_COMMAND="npm run github:coverage" npx --prefix "$ACTION_DIR" ts-node --project "$ACTION_DIR/tsconfig.json" "$ACTION_DIR/loopbackCollector.ts" run
@@ -0,0 +1,4 @@
+rm -rf node_modules ./coverage/ut-results.json
+npm install
+mkdir -p coverage
+npx vitest run --reporter=json --outputFile=./coverage/ut-results.json
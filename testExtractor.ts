@@ -0,0 +1,295 @@
+/**
+ * Test Body Extractor
+ * Parses spec files with the TypeScript compiler API and extracts what each test actually checks
+ */
+
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+import { logger } from 'OpenRouterAICore/pino';
+import { isTestFile } from './pathMapping';
+import type { ExtractedSuite, ExtractedTestReport, ParsedTestFile, ParsedTestReport } from './types';
+
+/**
+ * Maximum length of the compacted test body sent to the model
+ */
+const MAX_BODY_LENGTH = 400;
+
+/**
+ * Maximum length of a single assertion or mock expression
+ */
+const MAX_EXPRESSION_LENGTH = 120;
+
+/**
+ * Functions declaring a test case
+ */
+const TEST_FUNCTIONS = ['it', 'test', 'fit', 'xit', 'xtest', 'specify'];
+
+/**
+ * Functions declaring a group of tests
+ */
+const SUITE_FUNCTIONS = ['describe', 'context', 'suite', 'fdescribe', 'xdescribe'];
+
+/**
+ * Setup hooks whose mocks apply to every test of the suite
+ */
+const HOOK_FUNCTIONS = ['beforeEach', 'before', 'beforeAll'];
+
+/**
+ * Modifiers that focus or skip a test or suite
+ */
+const MODIFIERS = ['only', 'skip', 'todo', 'each'];
+
+/**
+ * Roots of assertion call chains (jest/jasmine/vitest `expect`, chai, node `assert`, sinon), chai `.should`
+ * chains and supertest `.expect(...)` calls chained on a request, e.g. `client.get('/ping').expect(200)`
+ */
+const ASSERTION_PATTERN =
+    /^(expect(Async|TypeOf)?|assert|should|chai\.(expect|assert)|sinon\.assert)\b|\.should\b|\.expect\(/;
+
+/**
+ * Calls creating mocks, stubs and spies
+ */
+const MOCK_PATTERN =
+    /^(jest\.(fn|mock|spyOn)|vi\.(fn|mock|spyOn)|sinon\.(stub|spy|mock|fake|createStubInstance)|createStubInstance|jasmine\.createSpy(Obj)?|spyOn|stub|nock)\b/;
+
+/**
+ * Timer calls used to wait inside a test
+ */
+const WAIT_PATTERN = /^(global\.|window\.)?setTimeout\b/;
+
+/**
+ * Test declaration found while walking a call expression
+ */
+interface TestCall {
+    kind: 'test' | 'suite';
+    modifier?: string;
+}
+
+/**
+ * Collapses whitespace and drops comments so a snippet fits in the prompt
+ */
+function compact(text: string, maxLength: number): string {
+    const single = text
+        .replace(/\/\*[\s\S]*?\*\/|(^|[^:])\/\/.*$/gm, '$1')
+        .replace(/\s+/g, ' ')
+        .trim();
+    return single.length > maxLength ? single.slice(0, maxLength - 1) + '…' : single;
+}
+
+/**
+ * Identifies `it(...)`, `it.only(...)`, `describe.skip(...)`, `xit(...)`, `test.each(...)(...)` and similar calls
+ * @param call - Call expression to inspect
+ * @returns The declaration kind and modifier, or undefined for any other call
+ */
+export function getTestCall(call: ts.CallExpression): TestCall | undefined {
+    let callee: ts.Expression = call.expression;
+    let modifier: string | undefined;
+
+    // test.each([...])('title', fn)
+    if (ts.isCallExpression(callee)) {
+        callee = callee.expression;
+    }
+    if (ts.isPropertyAccessExpression(callee) && MODIFIERS.includes(callee.name.text)) {
+        modifier = callee.name.text;
+        callee = callee.expression;
+    }
+    if (!ts.isIdentifier(callee)) {
+        return undefined;
+    }
+
+    const name = callee.text;
+    if (name === 'fit' || name === 'fdescribe') {
+        modifier = 'only';
+    } else if (name.startsWith('x')) {
+        modifier = 'skip';
+    }
+    if (TEST_FUNCTIONS.includes(name)) {
+        return { kind: 'test', modifier };
+    }
+    if (SUITE_FUNCTIONS.includes(name)) {
+        return { kind: 'suite', modifier };
+    }
+    return undefined;
+}
+
+/**
+ * Reads the title argument of a test or suite declaration
+ */
+export function getTitle(call: ts.CallExpression, sourceFile: ts.SourceFile): string {
+    const [first] = call.arguments;
+    if (!first) {
+        return '';
+    }
+    if (ts.isStringLiteralLike(first)) {
+        return first.text;
+    }
+    return first.getText(sourceFile);
+}
+
+/**
+ * Returns the callback passed to a test or suite declaration
+ */
+export function getCallback(call: ts.CallExpression): ts.FunctionLikeDeclaration | undefined {
+    return call.arguments.find(
+        (arg): arg is ts.ArrowFunction | ts.FunctionExpression =>
+            ts.isArrowFunction(arg) || ts.isFunctionExpression(arg),
+    );
+}
+
+/**
+ * Whether a call is the outermost call of its chain, e.g. `expect(a).toBe(b)` rather than `expect(a)`
+ */
+function isOutermostCall(call: ts.CallExpression): boolean {
+    let parent = call.parent;
+    while (parent && (ts.isPropertyAccessExpression(parent) || ts.isNonNullExpression(parent))) {
+        parent = parent.parent;
+    }
+    return !(parent && ts.isCallExpression(parent) && parent.expression.pos === call.pos);
+}
+
+/**
+ * Collects the assertion, mock and timer calls made inside a test body
+ * @param body - Test callback body
+ * @param sourceFile - Source file holding the body
+ * @returns Compacted assertion, mock and wait expressions
+ */
+export function collectCalls(
+    body: ts.Node,
+    sourceFile: ts.SourceFile,
+): { assertions: string[]; mocks: string[]; waits: string[] } {
+    const assertions: string[] = [];
+    const mocks: string[] = [];
+    const waits: string[] = [];
+
+    const visit = (node: ts.Node): void => {
+        if (ts.isCallExpression(node) && isOutermostCall(node)) {
+            const text = node.getText(sourceFile);
+            if (ASSERTION_PATTERN.test(text)) {
+                assertions.push(compact(text, MAX_EXPRESSION_LENGTH));
+            } else if (MOCK_PATTERN.test(text)) {
+                mocks.push(compact(text, MAX_EXPRESSION_LENGTH));
+            } else if (WAIT_PATTERN.test(text)) {
+                waits.push(compact(text, MAX_EXPRESSION_LENGTH));
+            }
+        }
+        ts.forEachChild(node, visit);
+    };
+    visit(body);
+
+    return { assertions, mocks, waits };
+}
+
+/**
+ * Parses a spec file and extracts every test block with its suite path, assertions and mocks.
+ * Mocks created in `beforeEach`/`before` hooks are attached to every test of the enclosing suite.
+ * @param filePath - Path of the spec file, used to pick the script kind
+ * @param content - Source text of the spec file
+ * @returns Extracted tests and describe blocks in source order
+ */
+export function parseTestFile(filePath: string, content: string): ParsedTestFile {
+    const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true);
+    const parsed: ParsedTestFile = { tests: [], suites: [] };
+    const getLine = (node: ts.Node): number =>
+        sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+
+    const walk = (node: ts.Node, suitePath: string[], suiteMocks: string[]): void => {
+        if (ts.isCallExpression(node)) {
+            const testCall = getTestCall(node);
+            const callback = getCallback(node);
+            if (testCall && callback) {
+                const title = getTitle(node, sourceFile);
+                if (testCall.kind === 'suite') {
+                    const suite: ExtractedSuite = {
+                        title,
+                        suitePath,
+                        line: getLine(node),
+                        modifier: testCall.modifier,
+                        testCount: 0,
+                    };
+                    parsed.suites.push(suite);
+                    const before = parsed.tests.length;
+                    walkSuite(callback.body, [...suitePath, title], suiteMocks);
+                    suite.testCount = parsed.tests.length - before;
+                    return;
+                }
+                const { assertions, mocks, waits } = collectCalls(callback.body, sourceFile);
+                parsed.tests.push({
+                    title,
+                    suitePath,
+                    line: getLine(node),
+                    modifier: testCall.modifier,
+                    assertions,
+                    mocks: [...suiteMocks, ...mocks],
+                    waits,
+                    body: compact(callback.body.getText(sourceFile), MAX_BODY_LENGTH),
+                });
+                return;
+            }
+        }
+        ts.forEachChild(node, (child) => walk(child, suitePath, suiteMocks));
+    };
+
+    const walkSuite = (body: ts.Node, suitePath: string[], inheritedMocks: string[]): void => {
+        const hookMocks: string[] = [];
+        ts.forEachChild(body, (statement) => {
+            const call = ts.isExpressionStatement(statement) ? statement.expression : undefined;
+            if (
+                call &&
+                ts.isCallExpression(call) &&
+                ts.isIdentifier(call.expression) &&
+                HOOK_FUNCTIONS.includes(call.expression.text)
+            ) {
+                const callback = getCallback(call);
+                if (callback) {
+                    hookMocks.push(...collectCalls(callback.body, sourceFile).mocks);
+                }
+            }
+        });
+        ts.forEachChild(body, (child) => walk(child, suitePath, [...inheritedMocks, ...hookMocks]));
+    };
+
+    walkSuite(sourceFile, [], []);
+    return parsed;
+}
+
+/**
+ * Parses the spec files among the given paths.
+ * Paths that are not test files, or no longer exist on disk, are skipped.
+ * @param filePaths - Changed files and mapped report entries
+ * @returns Parsed tests and suites per spec file
+ */
+export function parseTestFiles(filePaths: string[]): ParsedTestReport {
+    const report: ParsedTestReport = {};
+    const specFiles = [...new Set(filePaths)].filter(
+        (file) => isTestFile(file) && /\.(m|c)?(t|j)sx?$/.test(file) && fs.existsSync(path.resolve(file)),
+    );
+
+    for (const file of specFiles) {
+        try {
+            const parsed = parseTestFile(file, fs.readFileSync(path.resolve(file), 'utf8'));
+            if (parsed.tests.length > 0 || parsed.suites.length > 0) {
+                report[file] = parsed;
+            }
+        } catch (error) {
+            logger.error(`Error extracting tests from ${file}`, error);
+        }
+    }
+    logger.info(`Parsed ${Object.keys(report).length} spec file(s)`);
+    return report;
+}
+
+/**
+ * Keeps only the test blocks of the parsed spec files, as sent to the model
+ * @param parsedTests - Parsed spec files
+ * @returns Extracted tests per spec file
+ */
+export function getTestBodies(parsedTests: ParsedTestReport): ExtractedTestReport {
+    const report: ExtractedTestReport = {};
+    for (const [file, parsed] of Object.entries(parsedTests)) {
+        if (parsed.tests.length > 0) {
+            report[file] = parsed.tests;
+        }
+    }
+    return report;
+}
@@ -0,0 +1,120 @@
+/**
+ * Static Test Smell Analyzer
+ * Rule-based checks on the Pull Request's spec files producing a reproducible quality score
+ */
+
+import { escapeHtml } from './formatting';
+import type { ParsedTestReport, TestSmell, TestSmellReport, TestSmellRule } from './types';
+
+/**
+ * Smell rules with the weight each occurrence removes from the score, relative to one test
+ */
+export const SMELL_RULES: Record<TestSmellRule, { weight: number; label: string }> = {
+    'focused-test': {
+        weight: 1,
+        label: 'Focused test (.only / fit / fdescribe) silently disables the rest of the suite',
+    },
+    'skipped-test': { weight: 0.5, label: 'Skipped test (.skip / xit / xdescribe) is counted but never runs' },
+    'no-assertion': { weight: 1, label: 'Test has no assertion' },
+    'empty-describe': { weight: 0.5, label: 'Describe block contains no tests' },
+    'duplicate-title': { weight: 0.5, label: 'Duplicate test title in the same suite' },
+    'timeout-wait': { weight: 0.5, label: 'Test waits with setTimeout instead of awaiting or using fake timers' },
+    'snapshot-only': { weight: 0.5, label: 'Test only asserts a snapshot' },
+};
+
+/**
+ * Assertions that compare against a stored snapshot
+ */
+const SNAPSHOT_PATTERN = /\.(toMatchSnapshot|toMatchInlineSnapshot|toMatchFileSnapshot|toThrowErrorMatchingSnapshot)\(/;
+
+/**
+ * Maximum score, matching the AI score scale
+ */
+const MAX_SCORE = 10;
+
+/**
+ * Full title of a test or suite, used for reporting and duplicate detection
+ */
+function getFullTitle(suitePath: string[], title: string): string {
+    return [...suitePath, title].join(' > ');
+}
+
+/**
+ * Runs every smell rule over the parsed spec files.
+ * The score starts at 10 and loses the weight of each smell divided by the number of tests,
+ * so the same spec files always produce the same score.
+ * @param parsedTests - Parsed spec files of the Pull Request
+ * @returns Smells found and the resulting score
+ */
+export function analyzeTestSmells(parsedTests: ParsedTestReport): TestSmellReport {
+    const smells: TestSmell[] = [];
+    let testCount = 0;
+
+    const add = (rule: TestSmellRule, file: string, line: number, title: string): void => {
+        smells.push({ rule, file, line, title, message: SMELL_RULES[rule].label });
+    };
+
+    for (const [file, parsed] of Object.entries(parsedTests)) {
+        testCount += parsed.tests.length;
+
+        for (const suite of parsed.suites) {
+            const title = getFullTitle(suite.suitePath, suite.title);
+            if (suite.modifier === 'only') {
+                add('focused-test', file, suite.line, title);
+            } else if (suite.modifier === 'skip') {
+                add('skipped-test', file, suite.line, title);
+            }
+            if (suite.testCount === 0) {
+                add('empty-describe', file, suite.line, title);
+            }
+        }
+
+        const seenTitles = new Set<string>();
+        for (const test of parsed.tests) {
+            const title = getFullTitle(test.suitePath, test.title);
+            if (test.modifier === 'only') {
+                add('focused-test', file, test.line, title);
+            } else if (test.modifier === 'skip' || test.modifier === 'todo') {
+                add('skipped-test', file, test.line, title);
+            }
+            if (test.assertions.length === 0 && test.modifier !== 'skip' && test.modifier !== 'todo') {
+                add('no-assertion', file, test.line, title);
+            } else if (test.assertions.length > 0 && test.assertions.every((a) => SNAPSHOT_PATTERN.test(a))) {
+                add('snapshot-only', file, test.line, title);
+            }
+            if (test.waits.length > 0) {
+                add('timeout-wait', file, test.line, title);
+            }
+            if (seenTitles.has(title) && test.modifier !== 'each') {
+                add('duplicate-title', file, test.line, title);
+            }
+            seenTitles.add(title);
+        }
+    }
+
+    const penalty = smells.reduce((total, smell) => total + SMELL_RULES[smell.rule].weight, 0);
+    const score = Math.max(0, MAX_SCORE - (MAX_SCORE * penalty) / Math.max(testCount, 1));
+
+    return { score: Math.round(score * 10) / 10, testCount, smells };
+}
+
+/**
+ * Renders the static score and the smells found, for the PR comment and the Confluence page
+ * @param report - Static analysis result
+ * @returns HTML formatted summary, or an empty string when no spec file was analyzed
+ */
+export function getTestSmellSummary(report: TestSmellReport): string {
+    if (report.testCount === 0 && report.smells.length === 0) {
+        return '';
+    }
+    let summary = `\n<b>Static Score:-</b> <b>${report.score}/10</b> (${report.smells.length} smell(s) in ${report.testCount} test(s))`;
+    if (report.smells.length > 0) {
+        const items = report.smells.map(
+            (smell) =>
+                `<li><code>${escapeHtml(smell.file)}:${smell.line}</code> ${escapeHtml(smell.title)} - ` +
+                `${escapeHtml(smell.message)}</li>`,
+        );
+        summary += `\n<details><summary>Test smells</summary><ul>${items.join('')}</ul></details>`;
+    }
+    return summary;
+}
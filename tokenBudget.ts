@@ -0,0 +1,73 @@
+/**
+ * Token Budget
+ * Estimates prompt sizes and the prompt budget of each configured model
+ */
+
+/**
+ * Context window, in tokens, of the model families in use. The first matching fragment wins,
+ * so more specific names come before their family.
+ */
+const MODEL_CONTEXT_WINDOWS: Array<[string, number]> = [
+    ['gemini', 1000000],
+    ['claude', 200000],
+    ['gpt-4.1', 1000000],
+    ['gpt-4o', 128000],
+    ['gpt-4-turbo', 128000],
+    ['gpt-4', 8192],
+    ['gpt-3.5', 16385],
+    ['openai/o1', 128000],
+    ['openai/o3', 200000],
+    ['llama-3.1', 131072],
+    ['llama-3', 8192],
+    ['deepseek', 64000],
+    ['mistral', 32000],
+    ['qwen', 32768],
+];
+
+/**
+ * Context window assumed for models missing from the table
+ */
+const DEFAULT_CONTEXT_WINDOW = 32000;
+
+/**
+ * Tokens kept free for the model's answer
+ */
+const OUTPUT_RESERVE_TOKENS = 4096;
+
+/**
+ * Characters per token used for the estimate. JSON reports tokenize densely, so this stays below
+ * the usual 4 characters per token of English prose to err on the safe side.
+ */
+const CHARS_PER_TOKEN = 3;
+
+/**
+ * Estimates the number of tokens of a text
+ * @param text - Prompt or prompt fragment
+ * @returns Estimated token count
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Looks up the context window of a model
+ * @param modelName - OpenRouter model name, e.g. `anthropic/claude-3.5-sonnet`
+ * @returns Context window in tokens
+ */
+export function getContextWindow(modelName: string): number {
+    const name = modelName.toLowerCase();
+    const match = MODEL_CONTEXT_WINDOWS.find(([fragment]) => name.includes(fragment));
+    return match ? match[1] : DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Number of prompt tokens a model may receive
+ * @param modelName - OpenRouter model name
+ * @param configuredBudget - `PROMPT_TOKEN_BUDGET` setting; empty to derive the budget from the context window
+ * @returns Prompt budget in tokens, never more than the context window minus the answer reserve
+ */
+export function getPromptBudget(modelName: string, configuredBudget: string): number {
+    const available = getContextWindow(modelName) - OUTPUT_RESERVE_TOKENS;
+    const configured = parseInt(configuredBudget, 10);
+    return configured > 0 ? Math.min(configured, available) : available;
+}
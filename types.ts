@@ -2,6 +2,8 @@
  * Type definitions for test quality checker application
  */
 
+import type { ApiSource, CriterionStatus, TicketSource } from './constants';
+
 /**
  * Input configuration for the GitHub Action
  */
@@ -85,16 +87,224 @@ export interface ConfluencePageResponse {
     pageTitle: string;
     /** Full URL to the page */
     url?: string;
+    /** Version of the page after the update, 1 for a new page */
+    version?: number;
+}
+
+/**
+ * A test case the model derived from the Jira story, with the existing tests it compared it against
+ */
+export interface CoverageCase {
+    /** Behavior that should be tested */
+    case: string;
+    /** Titles of the existing tests covering the case, if any */
+    tests: string[];
+    /** What is missing or should be tested, for partially covered and missing cases */
+    detail?: string;
+    /** Changed source file implementing the behavior, for partially covered and missing cases */
+    file?: string;
+}
+
+/**
+ * Coverage analysis returned by a model, following the JSON schema requested by the analysis prompts
+ */
+export interface AnalysisResult {
+    /** Jira issue ID */
+    jiraId: string;
+    /** Jira story title */
+    title: string;
+    /** Cases fully verified by the existing tests */
+    fullyCovered: CoverageCase[];
+    /** Cases the existing tests only verify in part */
+    partiallyCovered: CoverageCase[];
+    /** Cases no existing test verifies */
+    missing: CoverageCase[];
+    /** Suggested improvements to the existing tests */
+    suggestions: string[];
+    /** Coverage score out of 10 */
+    score: number;
+    /** One paragraph summary of the analysis, without the score */
+    summary: string;
+    /** Verdict of each acceptance criterion listed in the prompt */
+    criteria: CriterionCoverage[];
+}
+
+/**
+ * A model's verdict on one acceptance criterion
+ */
+export interface CriterionCoverage {
+    /** Criterion ID as listed in the prompt, e.g. AC1 */
+    id: string;
+    /** Whether the existing tests verify the criterion */
+    status: CriterionStatus;
+    /** Titles of the existing tests verifying the criterion */
+    tests: string[];
+    /** What is missing, for partially covered and missing criteria */
+    detail?: string;
 }
 
 /**
  * AI Model response structure
  */
 export interface ModelResponse {
-    /** Full detailed response from the model */
+    /** Model that produced the response */
+    model: string;
+    /** Validated analysis, or null when the model never returned a valid document */
+    result: AnalysisResult | null;
+    /** Last raw output of the model */
+    raw: string;
+    /** Validation errors of the last raw output */
+    errors: string[];
+    /** Number of repair requests sent to the model */
+    repairAttempts: number;
+    /** Request error of a model that could not be called; the run continues with the other models */
+    error?: string;
+    /** Earlier run whose cached analysis was reused instead of calling the model */
+    reusedFrom?: CachedRun;
+}
+
+/**
+ * Workflow run that produced an analysis, cached or recorded in the score history
+ */
+export interface CachedRun {
+    /** Time the analysis was made, ISO 8601 */
+    createdAt: string;
+    /** Commit the run analysed */
+    commit: string;
+    /** Link to the workflow run, empty outside GitHub Actions */
+    runUrl: string;
+}
+
+/**
+ * Inputs that decide the analysis of a model
+ */
+export interface CacheKeyInput {
+    /** Jira story sent to the model */
+    story: string;
+    /** Report payload without the run-specific details, see `getCacheReport` */
+    report: string;
+    /** Prompt rendered without the report and the PR's file list: template, partials and story */
+    promptTemplate: string;
+    /** PROMPT_TOKEN_BUDGET setting, which decides how the report is split */
+    tokenBudget: string;
+    /** Model name */
+    model: string;
+}
+
+/**
+ * Cached analysis of one model, stored as `<key>.json` in the cache directory
+ */
+export interface CacheEntry extends CachedRun {
+    /** Hash of the story, filtered report, prompt template and model name */
+    key: string;
+    /** Validated response of the model */
+    response: ModelResponse;
+}
+
+/**
+ * Language model backend used for the analysis
+ */
+export interface LlmProvider {
+    /** Provider name, as configured in LLM_PROVIDER */
+    name: string;
+    /** API source whose retry budget the calls use */
+    source: ApiSource;
+    /**
+     * Generates the analysis for a prompt
+     * @param model - Model name
+     * @param prompt - Rendered user prompt
+     * @returns Raw model output
+     */
+    generate(model: string, prompt: string): Promise<string>;
+    /**
+     * Asks the model to correct an earlier output
+     * @param model - Model name
+     * @param output - Output to correct
+     * @param prompt - Repair instructions
+     * @returns Raw model output
+     */
+    repair(model: string, output: string, prompt: string): Promise<string>;
+}
+
+/**
+ * Settings of the configured LLM provider
+ */
+export interface LlmProviderSettings {
+    /** `openrouter`, `openai-compatible` or `fixture` */
+    provider: string;
+    /** Base URL of the OpenAI-compatible API, e.g. `http://localhost:11434/v1` */
+    baseUrl: string;
+    /** API key of the OpenAI-compatible API; empty for local servers without authentication */
+    apiKey: string;
+    /** Directory of recorded responses: replayed by the fixture provider, written by the others */
+    fixtureDir: string;
+}
+
+/**
+ * Recorded model call, stored as `<key>.json` in the fixture directory
+ */
+export interface LlmFixture {
+    /** Kind of call */
+    kind: 'generate' | 'repair';
+    /** Model name */
+    model: string;
+    /** User prompt, or repair instructions */
+    prompt: string;
+    /** Output a repair call corrected */
+    output?: string;
+    /** Recorded model output */
     response: string;
-    /** Summary response with key metrics */
-    summaryResponse: string;
+}
+
+/**
+ * Test case whose verdict differs between models
+ */
+export interface ConsensusCase {
+    /** Case text, as worded by the first model that reported it */
+    case: string;
+    /** Models that reported the case */
+    models: string[];
+}
+
+/**
+ * Agreement between the models that returned a valid analysis
+ */
+export interface ConsensusResult {
+    /** Models included in the consensus */
+    models: string[];
+    /** Models that failed or returned no valid analysis */
+    failedModels: string[];
+    /** Median score */
+    median: number;
+    /** Mean score */
+    mean: number;
+    /** Difference between the highest and the lowest score */
+    spread: number;
+    /** Missing cases reported by every model */
+    agreedMissing: ConsensusCase[];
+    /** Missing cases reported by only some of the models */
+    disputedMissing: ConsensusCase[];
+}
+
+/**
+ * Outcome of a single test run
+ */
+export type TestStatus = 'passed' | 'failed' | 'pending' | 'skipped' | 'unknown';
+
+/**
+ * Result of a single test in the unit report
+ */
+export interface TestCaseResult {
+    /** Test title */
+    title: string;
+    /** Titles of the enclosing describe blocks */
+    suitePath: string[];
+    /** Outcome of the test; `unknown` for reports that only list titles */
+    status: TestStatus;
+    /** Duration in milliseconds */
+    duration?: number;
+    /** Failure message of a failed test */
+    failureMessage?: string;
 }
 
 /**
@@ -102,7 +312,219 @@ export interface ModelResponse {
  */
 export interface TestReport {
     /** Test file path to test results mapping */
-    [filePath: string]: string;
+    [filePath: string]: TestCaseResult[];
+}
+
+/**
+ * Test block extracted from a spec file
+ */
+export interface ExtractedTest {
+    /** Test title */
+    title: string;
+    /** Titles of the enclosing describe blocks */
+    suitePath: string[];
+    /** Line of the test declaration */
+    line: number;
+    /** Focus or skip modifier (only, skip, todo, each) */
+    modifier?: string;
+    /** Assertion calls made in the test (expect, assert, sinon.assert, should) */
+    assertions: string[];
+    /** Mocks, stubs and spies used by the test, including suite hooks */
+    mocks: string[];
+    /** setTimeout calls used to wait inside the test */
+    waits: string[];
+    /** Compacted test body */
+    body: string;
+}
+
+/**
+ * Describe block extracted from a spec file
+ */
+export interface ExtractedSuite {
+    /** Suite title */
+    title: string;
+    /** Titles of the enclosing describe blocks */
+    suitePath: string[];
+    /** Line of the describe declaration */
+    line: number;
+    /** Focus or skip modifier (only, skip, each) */
+    modifier?: string;
+    /** Number of tests declared in the suite, nested suites included */
+    testCount: number;
+}
+
+/**
+ * Parsed spec file
+ */
+export interface ParsedTestFile {
+    /** Test blocks in source order */
+    tests: ExtractedTest[];
+    /** Describe blocks in source order */
+    suites: ExtractedSuite[];
+}
+
+/**
+ * Parsed spec files structure
+ */
+export interface ParsedTestReport {
+    /** Spec file path to parsed file mapping */
+    [filePath: string]: ParsedTestFile;
+}
+
+/**
+ * Extracted test report structure
+ */
+export interface ExtractedTestReport {
+    /** Spec file path to extracted tests mapping */
+    [filePath: string]: ExtractedTest[];
+}
+
+/**
+ * Static test smell rule identifiers
+ */
+export type TestSmellRule =
+    | 'focused-test'
+    | 'skipped-test'
+    | 'no-assertion'
+    | 'empty-describe'
+    | 'duplicate-title'
+    | 'timeout-wait'
+    | 'snapshot-only';
+
+/**
+ * Test smell found by the static analyzer
+ */
+export interface TestSmell {
+    /** Rule that flagged the smell */
+    rule: TestSmellRule;
+    /** Spec file path */
+    file: string;
+    /** Line of the offending test or describe block */
+    line: number;
+    /** Full title of the offending test or describe block */
+    title: string;
+    /** Human readable description */
+    message: string;
+}
+
+/**
+ * Static test smell analysis result
+ */
+export interface TestSmellReport {
+    /** Reproducible score out of 10 */
+    score: number;
+    /** Number of tests analyzed */
+    testCount: number;
+    /** Smells found */
+    smells: TestSmell[];
+}
+
+/**
+ * Source-to-test path mapping rule
+ */
+export interface PathMappingRule {
+    /** Glob matching changed source files */
+    source: string;
+    /** Glob of the matching test report keys; wildcards are filled from the source match */
+    test: string;
+}
+
+/**
+ * Istanbul coverage summary for a single source file
+ */
+export interface FileCoverage {
+    /** Source file path relative to repository root */
+    file: string;
+    /** Line coverage percentage */
+    lines: number;
+    /** Branch coverage percentage */
+    branches: number;
+    /** Function coverage percentage */
+    functions: number;
+    /** Uncovered line ranges (e.g. "12-18") */
+    uncoveredLines: string[];
+    /** Line ranges holding branches that were never taken */
+    uncoveredBranches: string[];
+}
+
+/**
+ * Coverage report structure
+ */
+export interface CoverageReport {
+    /** Source file path to coverage summary mapping */
+    [filePath: string]: FileCoverage;
+}
+
+/**
+ * Surviving Stryker mutant
+ */
+export interface SurvivingMutant {
+    /** Line of the mutated code */
+    line: number;
+    /** Stryker mutator name (e.g. ConditionalExpression) */
+    mutator: string;
+    /** Replacement code of the mutant */
+    replacement?: string;
+    /** Survived or NoCoverage */
+    status: string;
+}
+
+/**
+ * Stryker mutation score for a single source file
+ */
+export interface FileMutationScore {
+    /** Source file path relative to repository root */
+    file: string;
+    /** Mutation score percentage */
+    score: number;
+    /** Mutants killed by the tests */
+    killed: number;
+    /** Mutants that timed out (counted as detected) */
+    timeout: number;
+    /** Mutants the tests ran against but did not kill */
+    survived: number;
+    /** Mutants in code no test executes */
+    noCoverage: number;
+    /** Surviving mutants, ordered by line */
+    survivors: SurvivingMutant[];
+}
+
+/**
+ * Mutation report structure
+ */
+export interface MutationReport {
+    /** Source file path to mutation score mapping */
+    [filePath: string]: FileMutationScore;
+}
+
+/**
+ * Data sent to the model in place of `##REPORT##`
+ */
+export interface ReportPayload {
+    /** Test results per spec file */
+    tests: TestReport;
+    /** Coverage of the changed files */
+    coverage: CoverageReport;
+    /** Mutation score of the changed files */
+    mutation: MutationReport;
+    /** Extracted test bodies per spec file */
+    testBodies: ExtractedTestReport;
+    /** Changed source files without tests */
+    untestedFiles: string[];
+}
+
+/**
+ * Split of a report payload into prompts that fit a model's token budget
+ */
+export interface ReportChunkPlan {
+    /** Payload of each prompt */
+    chunks: ReportPayload[];
+    /** Files sent in full */
+    analysed: string[];
+    /** Files sent without test bodies and details to fit the budget */
+    summarised: string[];
+    /** Files left out because even their summary exceeds the budget */
+    dropped: string[];
 }
 
 /**
@@ -133,4 +555,386 @@ export interface EnvironmentConfig {
     REPORT_FILE_PATH: string;
     /** Confluence space key for output */
     JIRA_SPACE_KEY_OUTPUT: string;
+    /** Directory holding nyc/Istanbul coverage output */
+    COVERAGE_DIR: string;
+    /** Source-to-test glob rules (`<source glob> => <test glob>`) */
+    TEST_PATH_MAPPINGS: string;
+    /** tsconfig used to resolve compiled test paths */
+    TSCONFIG_PATH: string;
+    /** Path to the Stryker mutation.json report */
+    MUTATION_REPORT_PATH: string;
+    /** Maximum number of models queried at the same time */
+    MODEL_CONCURRENCY: string;
+    /** Maximum prompt tokens per model call; empty to derive it from the model's context window */
+    PROMPT_TOKEN_BUDGET: string;
+    /** Directory of the analysis cache; empty to disable caching */
+    CACHE_DIR: string;
+    /** Directory of the repository's prompt overrides and partials */
+    PROMPT_DIR: string;
+    /** LLM provider: `openrouter`, `openai-compatible` or `fixture` */
+    LLM_PROVIDER: string;
+    /** Base URL of the OpenAI-compatible API */
+    LLM_BASE_URL: string;
+    /** API key of the OpenAI-compatible API */
+    LLM_API_KEY: string;
+    /** Directory of recorded LLM responses */
+    LLM_FIXTURE_DIR: string;
+    /** Minimum analysis score out of 10; empty to disable the check */
+    MIN_SCORE: string;
+    /** Maximum number of missing test cases; empty to disable the check */
+    MAX_MISSING_CASES: string;
+    /** Minimum static analysis score out of 10; empty to disable the check */
+    MIN_STATIC_SCORE: string;
+    /** Minimum line coverage percentage of every changed file; empty to disable the check */
+    MIN_LINE_COVERAGE: string;
+    /** Name of the GitHub check run; empty to skip the check run */
+    CHECK_RUN_NAME: string;
+    /** Comma-separated places Jira tickets are discovered in: branch, title, body, commits */
+    JIRA_TICKET_SOURCES: string;
+    /** Comma-separated IDs of the Jira fields holding the acceptance criteria */
+    JIRA_ACCEPTANCE_CRITERIA_FIELDS: string;
+    /** `true` to comment on the analysed Jira issues and update their score field and labels */
+    JIRA_WRITE_BACK: string;
+    /** ID of the numeric Jira field receiving the score; empty to skip it */
+    JIRA_SCORE_FIELD: string;
+    /** Comma-separated labels set when the ticket passes the quality gate */
+    JIRA_LABELS_PASSED: string;
+    /** Comma-separated labels set when the ticket fails the quality gate */
+    JIRA_LABELS_FAILED: string;
+    /** Directory the report files are written to; empty writes none */
+    OUTPUT_DIR: string;
+    /** Comma-separated report formats: markdown, html, json, sarif */
+    OUTPUT_FORMATS: string;
+    /** ID of the Confluence page the report pages are nested under; empty for the top of the space */
+    CONFLUENCE_PARENT_PAGE_ID: string;
+    /** Comma-separated levels of pages between the parent and the report pages: repo, ticket */
+    CONFLUENCE_PAGE_HIERARCHY: string;
+    /** Comma-separated labels added to the report pages */
+    CONFLUENCE_LABELS: string;
+}
+
+/**
+ * Input of one analysis run, shared by the GitHub Action and the local CLI
+ */
+export interface AnalysisOptions {
+    /** Jira story the tests are checked against */
+    story: string;
+    /** Acceptance criteria of the story, mapped to the tests in the traceability matrix */
+    criteria: AcceptanceCriterion[];
+    /** Files changed by the PR or the local branch; empty to analyse the whole report */
+    changedFiles: string[];
+    /** Models to query */
+    modelNames: string[];
+    /** Prompt template, e.g. `GenerateTestCasesReport_API` */
+    promptName: string;
+    /** `owner/repo` shown to the model */
+    repo: string;
+    /** PR number shown to the model */
+    prNumber: string;
+    /** File the rendered prompt is written to for debugging */
+    promptOutputPath: string;
+    /** Report, coverage, prompt, cache and LLM settings */
+    settings: EnvironmentConfig;
+}
+
+/**
+ * Result of one analysis run
+ */
+export interface AnalysisRun {
+    /** Response of each model, in the configured order */
+    modelResponses: ModelResponse[];
+    /** Consensus of the models, null for fewer than two valid analyses */
+    consensus: ConsensusResult | null;
+    /** Rule-based analysis of the test files */
+    smellReport: TestSmellReport;
+    /** Report data sent to the models */
+    reportPayload: ReportPayload;
+    /** Acceptance criteria of the story with the tests covering them */
+    traceability: TraceabilityRow[];
+    /** Whether a coverage report was found in COVERAGE_DIR */
+    coverageFound: boolean;
+    /** Changed source files under the coverage roots that the coverage report has no entry for */
+    uncoveredFiles: string[];
+    /** HTML formatted summary for the PR comment */
+    summary: string;
+}
+
+/**
+ * Quality gate thresholds; null disables a check
+ */
+export interface QualityThresholds {
+    /** Minimum analysis score out of 10 */
+    minScore: number | null;
+    /** Maximum number of missing test cases */
+    maxMissingCases: number | null;
+    /** Minimum static analysis score out of 10 */
+    minStaticScore: number | null;
+    /** Minimum line coverage percentage of every changed file */
+    minLineCoverage: number | null;
+}
+
+/**
+ * Metrics of an analysis run the quality gate checks
+ */
+export interface QualityMetrics {
+    /** Consensus median, or the score of the only valid analysis; null without a valid analysis */
+    score: number | null;
+    /** Missing cases every model reported, or those of the only valid analysis; null without a valid analysis */
+    missingCount: number | null;
+    /** Static analysis score out of 10 */
+    staticScore: number;
+    /** Coverage of the changed files */
+    coverage: FileCoverage[];
+    /** Whether a coverage report was found */
+    coverageFound: boolean;
+    /** Changed source files without coverage */
+    uncoveredFiles: string[];
+}
+
+/**
+ * Outcome of one quality gate check
+ */
+export interface QualityGateCheck {
+    /** Metric checked */
+    name: string;
+    /** Whether the threshold is met */
+    passed: boolean;
+    /** Measured value against the threshold */
+    message: string;
+}
+
+/**
+ * Outcome of the quality gate
+ */
+export interface QualityGateResult {
+    /** Whether every configured check passed */
+    passed: boolean;
+    /** Configured checks, empty when no threshold is set */
+    checks: QualityGateCheck[];
+}
+
+/**
+ * Step outputs of the GitHub Action
+ */
+export interface ActionOutputs {
+    /** Score checked by the quality gate, empty without a valid analysis */
+    score: string;
+    /** Missing test cases checked by the quality gate, empty without a valid analysis */
+    missing_count: string;
+    /** Link to the Confluence page, empty when it was not created */
+    confluence_url: string;
+    /** Body of the PR comment, empty when it was not posted */
+    comment_body: string;
+}
+
+/**
+ * A test case reported for a source file, with the models that reported it
+ */
+export interface FileFinding {
+    /** Case as worded by the first model that reported it */
+    item: CoverageCase;
+    /** Models that reported the case */
+    models: string[];
+}
+
+/**
+ * Missing and partially covered test cases of a source file
+ */
+export interface FileFindings {
+    /** Cases no test verifies */
+    missing: FileFinding[];
+    /** Cases the tests only verify in part */
+    partiallyCovered: FileFinding[];
+}
+
+/**
+ * Annotation of a GitHub check run, in the shape of the Checks API
+ */
+export interface CheckAnnotation {
+    /** Repository relative path of the annotated file */
+    path: string;
+    /** First annotated line */
+    start_line: number;
+    /** Last annotated line */
+    end_line: number;
+    /** Severity shown in the Files changed view */
+    annotation_level: 'notice' | 'warning' | 'failure';
+    /** Short title of the annotation */
+    title: string;
+    /** Annotation text */
+    message: string;
+}
+
+/**
+ * Result published as a GitHub check run
+ */
+export interface CheckRunReport {
+    /** Outcome, deciding whether branch protection lets the PR merge */
+    conclusion: 'success' | 'failure';
+    /** One line headline of the check */
+    title: string;
+    /** Markdown summary of the check */
+    summary: string;
+    /** Annotations on the changed source files */
+    annotations: CheckAnnotation[];
+}
+
+/**
+ * Results of one run of the action on a PR, kept in the score history
+ */
+export interface ScoreHistoryEntry extends CachedRun {
+    /** Score checked by the quality gate, null without a valid analysis */
+    score: number | null;
+    /** Missing test cases checked by the quality gate, null without a valid analysis */
+    missingCount: number | null;
+    /** Static analysis score out of 10 */
+    staticScore: number;
+    /** Number of tests analysed */
+    testCount: number;
+}
+
+/**
+ * Jira issue fetched through the REST API
+ */
+export interface JiraIssue {
+    /** Issue key, e.g. TEL-123 */
+    key: string;
+    /** Issue summary */
+    summary: string;
+    /** Description as plain text */
+    description: string;
+    /** Raw values of the fetched fields, by field ID */
+    fields: Record<string, any>;
+    /** Display names of the fetched fields, by field ID */
+    fieldNames: Record<string, string>;
+    /** Link to the issue */
+    url: string;
+}
+
+/**
+ * Jira ticket referenced by a PR
+ */
+export interface JiraTicket {
+    /** Issue key, e.g. TEL-123 */
+    key: string;
+    /** Places the key was found in, in discovery order */
+    sources: TicketSource[];
+    /** Files of the commits naming the ticket; null when the branch, title or description names it, so it covers the whole PR */
+    files: string[] | null;
+}
+
+/**
+ * Analysis of one Jira ticket of the PR
+ */
+export interface TicketAnalysis {
+    /** Ticket and where it was found */
+    ticket: JiraTicket;
+    /** Fetched issue */
+    issue: JiraIssue;
+    /** Analysis of the ticket's story against its tests */
+    run: AnalysisRun;
+    /** Quality gate metrics of the ticket */
+    metrics: QualityMetrics;
+}
+
+/**
+ * Acceptance criterion extracted from a Jira story
+ */
+export interface AcceptanceCriterion {
+    /** Sequential ID shown to the models and in the matrix, e.g. AC1 */
+    id: string;
+    /** Criterion text; the steps of a Gherkin scenario are kept on separate lines */
+    text: string;
+    /** Field the criterion was read from, e.g. Description or Acceptance Criteria */
+    source: string;
+}
+
+/**
+ * Row of the traceability matrix: an acceptance criterion, the tests covering it and its verdict
+ */
+export interface TraceabilityRow {
+    /** Acceptance criterion */
+    criterion: AcceptanceCriterion;
+    /** Verdict of the models; with several models, the verdict most of them gave */
+    status: CriterionStatus;
+    /** Tests any model mapped to the criterion */
+    tests: string[];
+    /** What is missing, as reported with the verdict */
+    detail?: string;
+    /** Verdict of each model, when the models disagree */
+    verdicts: Array<{ model: string; status: CriterionStatus }>;
+}
+
+/**
+ * Results written back to an analysed Jira issue
+ */
+export interface JiraWriteBack {
+    /** Issue key */
+    key: string;
+    /** Score of the issue's analysis, null without a valid analysis */
+    score: number | null;
+    /** Number of missing test cases, null without a valid analysis */
+    missingCount: number | null;
+    /** Quality gate outcome of the issue, null when no threshold is configured */
+    gatePassed: boolean | null;
+    /** PR the results belong to, `owner/repo#number` */
+    pullRequest: string;
+    /** Link to the PR */
+    pullRequestUrl: string;
+    /** Link to the Confluence page; empty when the page could not be created */
+    confluenceUrl: string;
+    /** Time, commit and workflow run of the analysis */
+    run: CachedRun;
+}
+
+/**
+ * Results of a run, as written by the report exporters
+ */
+export interface AnalysisExport {
+    /** Time of the run, ISO 8601 */
+    date: string;
+    /** Prompt template used */
+    promptName: string;
+    /** Repository analysed */
+    repo: string;
+    /** Link to the PR, empty for local runs */
+    pullRequestUrl: string;
+    /** Files changed by the PR, empty when unknown */
+    changedFiles: string[];
+    /** Analysis of each ticket */
+    analyses: TicketAnalysis[];
+    /** Quality gate outcome of the run */
+    gate: QualityGateResult;
+    /** Markdown summary, as posted on the PR */
+    summary: string;
+    /** HTML body, as published on Confluence */
+    page: string;
+}
+
+/**
+ * URL and credentials of an Atlassian Cloud site
+ */
+export interface AtlassianSite {
+    /** Site URL, e.g. `https://your-domain.atlassian.net` */
+    url: string;
+    /** Email of the API user */
+    email: string;
+    /** API token of the user */
+    apiToken: string;
+}
+
+/**
+ * Report page published to Confluence
+ */
+export interface ConfluenceReport {
+    /** Repository, `owner/repo` */
+    repo: string;
+    /** PR number, or the branch for runs outside a PR */
+    pullRequest: string;
+    /** Keys of the analysed tickets, added as labels; the first one names the ticket index page */
+    tickets: string[];
+    /** Page body in Confluence storage format */
+    content: string;
+    /** Note recorded with the page version, e.g. the commit of the run */
+    versionMessage: string;
 }